@@ -65,7 +65,7 @@ echo ""
 echo "📋 Next steps:"
 echo "1. Set environment variables:"
 echo "   gcloud run services update ${SERVICE_NAME} \\"
-echo "     --update-env-vars \"JWT_SECRET=your-secret,PERPLEXITY_API_KEY=your-key,RINGG_API_KEY=your-ringg-key,FRONTEND_URL=https://your-frontend-domain.com\" \\"
+echo "     --update-env-vars \"JWT_SECRET=your-32-char-secret,ENCRYPTION_KEY=your-32-char-key,PERPLEXITY_API_KEY=your-key,RINGG_API_KEY=your-ringg-key,RINGG_AGENT_ID=your-agent-id,RINGG_FROM_NUMBER=+91XXXXXXXXXX,FRONTEND_URL=https://your-frontend-domain.com,CORS_ORIGINS=https://your-frontend-domain.com\" \\"
 echo "     --region ${REGION} \\"
 echo "     --project=${PROJECT_ID}"
 echo ""
@@ -1,8 +1,8 @@
 import crypto from 'crypto';
+import { config } from './env';
 
 const ALGORITHM = 'aes-256-cbc';
 
-// Lazy-load encryption key to ensure dotenv has loaded
 let cachedKey: Buffer | null = null;
 
 const getEncryptionKey = (): Buffer => {
@@ -10,7 +10,7 @@ const getEncryptionKey = (): Buffer => {
     return cachedKey;
   }
 
-  const encryptionKey = process.env.ENCRYPTION_KEY || '';
+  const encryptionKey = config.encryptionKey;
   
   if (!encryptionKey || encryptionKey.length < 32) {
     throw new Error('ENCRYPTION_KEY must be at least 32 characters. Please check your backend/.env file.');
@@ -0,0 +1,420 @@
+/**
+ * Configuration
+ * Loads .env, then reads and validates every setting once, at startup.
+ * Invalid settings stop the process with a list of what is wrong; there are
+ * no built-in credentials to fall back on. Import `config` instead of reading
+ * process.env. `npm run config:print` shows the effective settings with
+ * secrets redacted.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { TELEPHONY_PROVIDERS, TelephonyProviderName } from '../models/types';
+
+const NODE_ENVS = ['development', 'production', 'test'] as const;
+const STORAGE_BACKENDS = ['file', 'sqlite'] as const;
+const FAKE_CALL_OUTCOMES = ['completed', 'no_answer', 'busy', 'failed'] as const;
+const TRANSCRIPT_EXTRACTORS = ['rules', 'llm'] as const;
+const RECORDING_STORES = ['local'] as const;
+
+export interface AppConfig {
+  nodeEnv: typeof NODE_ENVS[number];
+  // Include stack traces in error responses; only when NODE_ENV is set to development
+  exposeErrorStacks: boolean;
+  port: number;
+  // Allowed browser origins; ['*'] allows any
+  corsOrigins: string[];
+  frontendUrl: string;
+  auth: {
+    jwtSecret: string;
+    accessTokenTtl: string;
+    refreshTokenTtlDays: number;
+  };
+  // Encrypts integration tokens at rest
+  encryptionKey: string;
+  storage: {
+    backend: typeof STORAGE_BACKENDS[number];
+    // JSON collections and logs
+    dataDir: string;
+    // CSV collections (properties, tenants, leads)
+    databaseDir: string;
+    uploadsDir: string;
+    sqlitePath: string;
+  };
+  otp: {
+    ttlSeconds: number;
+    maxAttempts: number;
+    resendIntervalSeconds: number;
+    maxSendsPerHour: number;
+  };
+  sms: {
+    provider: string;
+  };
+  leads: {
+    claimTtlHours: number;
+    claimSweepMinutes: number;
+  };
+  matching: {
+    weights: {
+      locality: number;
+      budget: number;
+      bedrooms: number;
+      amenities: number;
+      furnishing: number;
+      move_in: number;
+    };
+    minScore: number;
+  };
+  compliance: {
+    // 0 means consent does not expire
+    consentMaxAgeDays: number;
+  };
+  webhooks: {
+    toleranceSeconds: number;
+    replayLimit: number;
+    desivocalSecret: string;
+    ringgSecret: string;
+  };
+  campaigns: {
+    tickSeconds: number;
+    callTimeoutMinutes: number;
+  };
+  transcripts: {
+    // 'llm' asks Perplexity first and falls back to the rules
+    extractor: typeof TRANSCRIPT_EXTRACTORS[number];
+    llmModel: string;
+  };
+  recordings: {
+    storage: typeof RECORDING_STORES[number];
+    // Kept apart from uploadsDir, which is served publicly
+    dir: string;
+    // 0 keeps recordings until they are deleted on request
+    retentionDays: number;
+    sweepMinutes: number;
+    maxBytes: number;
+  };
+  telephony: {
+    defaultProvider: TelephonyProviderName;
+    fakeCallSeconds: number;
+    fakeOutcome: typeof FAKE_CALL_OUTCOMES[number];
+  };
+  ringg: {
+    apiBaseUrl: string;
+    apiKey: string;
+    agentId: string;
+    // Caller IDs, the default first
+    fromNumbers: string[];
+  };
+  elevenlabs: {
+    apiKey: string;
+    // 0 turns the scheduled conversation sync off; it can still be run on request
+    syncMinutes: number;
+    // How far back the first sync of an agent's conversations goes
+    syncLookbackDays: number;
+  };
+  perplexity: {
+    apiKey: string;
+  };
+  google: {
+    clientId: string;
+    clientSecret: string;
+  };
+}
+
+// Settings never printed in full
+const SECRET_PATHS = [
+  'auth.jwtSecret',
+  'encryptionKey',
+  'webhooks.desivocalSecret',
+  'webhooks.ringgSecret',
+  'ringg.apiKey',
+  'elevenlabs.apiKey',
+  'perplexity.apiKey',
+  'google.clientSecret'
+];
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+// Reads settings from env, collecting every problem instead of stopping at the first
+const createReader = (env: NodeJS.ProcessEnv) => {
+  const problems: string[] = [];
+
+  const raw = (name: string): string => (env[name] || '').trim();
+
+  const reader = {
+    problems,
+
+    text(name: string, fallback = ''): string {
+      return raw(name) || fallback;
+    },
+
+    required(name: string, why?: string): string {
+      const value = raw(name);
+      if (!value) problems.push(`${name} is required${why ? ` ${why}` : ''}`);
+      return value;
+    },
+
+    number(name: string, fallback: number, { min = 0, max = Infinity, integer = true } = {}): number {
+      const value = raw(name);
+      if (!value) return fallback;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed)) || parsed < min || parsed > max) {
+        problems.push(`${name} must be ${integer ? 'a whole number' : 'a number'} from ${min}${max === Infinity ? ' up' : ` to ${max}`} (got "${value}")`);
+        return fallback;
+      }
+      return parsed;
+    },
+
+    oneOf<T extends string>(name: string, values: readonly T[], fallback: T): T {
+      const value = raw(name);
+      if (!value) return fallback;
+      if (!(values as readonly string[]).includes(value)) {
+        problems.push(`${name} must be one of ${values.join(', ')} (got "${value}")`);
+        return fallback;
+      }
+      return value as T;
+    },
+
+    url(name: string, fallback = ''): string {
+      const value = raw(name) || fallback;
+      if (value && !/^https?:$/.test(safeUrl(value)?.protocol || '')) {
+        problems.push(`${name} must be an http(s) URL (got "${value}")`);
+      }
+      return value.replace(/\/+$/, '');
+    },
+
+    list(name: string, fallback: string[] = []): string[] {
+      const value = raw(name);
+      return value ? value.split(',').map(item => item.trim()).filter(Boolean) : fallback;
+    },
+
+    // A directory we write to: if it exists it must be a writable directory
+    directory(name: string, fallback: string): string {
+      const dir = path.resolve(raw(name) || fallback);
+      if (fs.existsSync(dir)) {
+        try {
+          if (!fs.statSync(dir).isDirectory()) throw new Error('not a directory');
+          fs.accessSync(dir, fs.constants.W_OK);
+        } catch {
+          problems.push(`${name} must be a writable directory (got "${dir}")`);
+        }
+      }
+      return dir;
+    }
+  };
+  return reader;
+};
+
+const safeUrl = (value: string): URL | null => {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read and validate the configuration from env. Throws ConfigError listing
+ * every problem. Production additionally requires strong secrets and the
+ * default telephony provider's credentials.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  const read = createReader(env);
+  const nodeEnv = read.oneOf('NODE_ENV', NODE_ENVS, 'development');
+  const production = nodeEnv === 'production';
+
+  const corsOrigins = read.list('CORS_ORIGINS', ['*']);
+  if (corsOrigins.includes('*') && corsOrigins.length > 1) {
+    read.problems.push('CORS_ORIGINS cannot mix "*" with other origins');
+  }
+  for (const origin of corsOrigins.filter(origin => origin !== '*')) {
+    if (safeUrl(origin)?.origin !== origin) {
+      read.problems.push(`CORS_ORIGINS entries must be origins like https://app.example.com, without a path (got "${origin}")`);
+    }
+  }
+
+  const jwtSecret = read.required('JWT_SECRET');
+  if (production && jwtSecret && jwtSecret.length < 32) {
+    read.problems.push('JWT_SECRET must be at least 32 characters in production');
+  }
+
+  const encryptionKey = production ? read.required('ENCRYPTION_KEY', 'in production') : read.text('ENCRYPTION_KEY');
+  if (encryptionKey && encryptionKey.length < 32) {
+    read.problems.push('ENCRYPTION_KEY must be at least 32 characters');
+  }
+
+  const dataDir = read.directory('DATA_DIR', 'data');
+
+  // Recordings are served only through the authenticated API, never from the public uploads directory
+  const uploadsDir = read.directory('UPLOADS_DIR', 'uploads');
+  const recordingsDir = read.directory('RECORDINGS_DIR', 'recordings');
+  const fromUploads = path.relative(uploadsDir, recordingsDir);
+  if (!fromUploads || (!fromUploads.startsWith('..') && !path.isAbsolute(fromUploads))) {
+    read.problems.push(`RECORDINGS_DIR must not be inside UPLOADS_DIR, which is publicly readable (got "${recordingsDir}")`);
+  }
+
+  const fromNumbers = Array.from(new Set([read.text('RINGG_FROM_NUMBER'), ...read.list('RINGG_FROM_NUMBERS')].filter(Boolean)));
+  for (const number of fromNumbers) {
+    if (!E164.test(number)) {
+      read.problems.push(`Ringg caller IDs (RINGG_FROM_NUMBER, RINGG_FROM_NUMBERS) must be E.164 numbers like +918000000000 (got "${number}")`);
+    }
+  }
+
+  const config: AppConfig = {
+    nodeEnv,
+    exposeErrorStacks: read.text('NODE_ENV') === 'development',
+    port: read.number('PORT', 3001, { min: 1, max: 65535 }),
+    corsOrigins,
+    frontendUrl: read.url('FRONTEND_URL'),
+    auth: {
+      jwtSecret,
+      accessTokenTtl: read.text('ACCESS_TOKEN_TTL', '15m'),
+      refreshTokenTtlDays: read.number('REFRESH_TOKEN_TTL_DAYS', 30, { min: 1 })
+    },
+    encryptionKey,
+    storage: {
+      backend: read.oneOf('STORAGE_BACKEND', STORAGE_BACKENDS, 'file'),
+      dataDir,
+      databaseDir: read.directory('DATABASE_DIR', 'database'),
+      uploadsDir,
+      sqlitePath: path.resolve(read.text('SQLITE_PATH', path.join(dataDir, 'homemates.db')))
+    },
+    otp: {
+      ttlSeconds: read.number('OTP_TTL_SECONDS', 300, { min: 30 }),
+      maxAttempts: read.number('OTP_MAX_ATTEMPTS', 5, { min: 1 }),
+      resendIntervalSeconds: read.number('OTP_RESEND_INTERVAL_SECONDS', 60),
+      maxSendsPerHour: read.number('OTP_MAX_SENDS_PER_HOUR', 5, { min: 1 })
+    },
+    sms: {
+      provider: read.text('SMS_PROVIDER', 'console')
+    },
+    leads: {
+      claimTtlHours: read.number('LEAD_CLAIM_TTL_HOURS', 48, { min: 0, integer: false }),
+      claimSweepMinutes: read.number('LEAD_CLAIM_SWEEP_MINUTES', 15, { min: 1 })
+    },
+    matching: {
+      weights: {
+        locality: read.number('MATCH_WEIGHT_LOCALITY', 0.3, { integer: false }),
+        budget: read.number('MATCH_WEIGHT_BUDGET', 0.3, { integer: false }),
+        bedrooms: read.number('MATCH_WEIGHT_BEDROOMS', 0.2, { integer: false }),
+        amenities: read.number('MATCH_WEIGHT_AMENITIES', 0.1, { integer: false }),
+        furnishing: read.number('MATCH_WEIGHT_FURNISHING', 0.05, { integer: false }),
+        move_in: read.number('MATCH_WEIGHT_MOVE_IN', 0.05, { integer: false })
+      },
+      minScore: read.number('MATCH_MIN_SCORE', 0.4, { max: 1, integer: false })
+    },
+    compliance: {
+      consentMaxAgeDays: read.number('CONSENT_MAX_AGE_DAYS', 0)
+    },
+    webhooks: {
+      toleranceSeconds: read.number('WEBHOOK_TOLERANCE_SECONDS', 300, { min: 1 }),
+      replayLimit: read.number('WEBHOOK_REPLAY_LIMIT', 500, { min: 1 }),
+      desivocalSecret: read.text('DESIVOCAL_WEBHOOK_SECRET'),
+      ringgSecret: read.text('RINGG_WEBHOOK_SECRET')
+    },
+    campaigns: {
+      tickSeconds: read.number('CAMPAIGN_TICK_SECONDS', 30, { min: 1 }),
+      callTimeoutMinutes: read.number('CAMPAIGN_CALL_TIMEOUT_MINUTES', 30, { min: 1 })
+    },
+    transcripts: {
+      extractor: read.oneOf('TRANSCRIPT_EXTRACTOR', TRANSCRIPT_EXTRACTORS, 'rules'),
+      llmModel: read.text('TRANSCRIPT_LLM_MODEL', 'sonar')
+    },
+    recordings: {
+      storage: read.oneOf('RECORDING_STORAGE', RECORDING_STORES, 'local'),
+      dir: recordingsDir,
+      retentionDays: read.number('RECORDING_RETENTION_DAYS', 90),
+      sweepMinutes: read.number('RECORDING_SWEEP_MINUTES', 30, { min: 1 }),
+      maxBytes: read.number('RECORDING_MAX_MB', 100, { min: 1 }) * 1024 * 1024
+    },
+    telephony: {
+      defaultProvider: read.oneOf('TELEPHONY_DEFAULT_PROVIDER', TELEPHONY_PROVIDERS, 'ringg'),
+      fakeCallSeconds: read.number('FAKE_TELEPHONY_CALL_SECONDS', 5),
+      fakeOutcome: read.oneOf('FAKE_TELEPHONY_OUTCOME', FAKE_CALL_OUTCOMES, 'completed')
+    },
+    ringg: {
+      apiBaseUrl: read.url('RINGG_API_BASE_URL', 'https://prod-api.ringg.ai/ca/api/v0'),
+      apiKey: read.text('RINGG_API_KEY'),
+      agentId: read.text('RINGG_AGENT_ID_OUTBOUND') || read.text('RINGG_AGENT_ID'),
+      fromNumbers
+    },
+    elevenlabs: {
+      apiKey: read.text('ELEVENLABS_API_KEY'),
+      syncMinutes: read.number('ELEVENLABS_SYNC_MINUTES', 15),
+      syncLookbackDays: read.number('ELEVENLABS_SYNC_LOOKBACK_DAYS', 30, { min: 1 })
+    },
+    perplexity: {
+      apiKey: read.text('PERPLEXITY_API_KEY')
+    },
+    google: {
+      clientId: read.text('GOOGLE_CLIENT_ID'),
+      clientSecret: read.text('GOOGLE_CLIENT_SECRET')
+    }
+  };
+
+  if (config.transcripts.extractor === 'llm' && !config.perplexity.apiKey) {
+    read.problems.push('PERPLEXITY_API_KEY is required when TRANSCRIPT_EXTRACTOR is llm');
+  }
+
+  // The default provider must be usable in production; elsewhere calls fail when placed
+  if (production) {
+    const { defaultProvider } = config.telephony;
+    if (defaultProvider === 'fake') {
+      read.problems.push('TELEPHONY_DEFAULT_PROVIDER cannot be "fake" in production');
+    } else if (defaultProvider === 'ringg') {
+      read.required('RINGG_API_KEY', 'when Ringg is the default telephony provider');
+      if (!config.ringg.agentId) read.problems.push('RINGG_AGENT_ID is required when Ringg is the default telephony provider');
+      if (fromNumbers.length === 0) read.problems.push('RINGG_FROM_NUMBER is required when Ringg is the default telephony provider');
+    } else {
+      read.required('ELEVENLABS_API_KEY', 'when ElevenLabs is the default telephony provider');
+    }
+  }
+
+  if (read.problems.length > 0) {
+    throw new ConfigError(read.problems);
+  }
+  return config;
+};
+
+// A copy of the config safe to print: secrets show only whether they are set
+export const redactConfig = (appConfig: AppConfig): Record<string, any> => {
+  const copy = JSON.parse(JSON.stringify(appConfig));
+  for (const secretPath of SECRET_PATHS) {
+    const keys = secretPath.split('.');
+    const parent = keys.slice(0, -1).reduce((node, key) => node[key], copy);
+    const last = keys[keys.length - 1];
+    parent[last] = parent[last] ? '[redacted]' : '(not set)';
+  }
+  return copy;
+};
+
+// .env in the working directory, else next to the project root; real environment variables win
+const loadDotenv = () => {
+  const result = dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+  if (result.error) {
+    dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+  }
+};
+
+const loadOrExit = (): AppConfig => {
+  loadDotenv();
+  try {
+    return loadConfig(process.env);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+};
+
+export const config: AppConfig = loadOrExit();
@@ -0,0 +1,167 @@
+/**
+ * File Write Safety
+ * Serializes read-modify-write cycles per file and replaces files atomically.
+ *
+ * - Writers to the same file queue behind each other inside the process and
+ *   hold a <file>.lock across processes. The holder touches the lock while it
+ *   works; a lock is broken when its holder's process has exited, or when it
+ *   has not been touched for LOCK_STALE_MS.
+ * - New content is first written to <file>.journal.tmp and renamed to
+ *   <file>.journal (the commit point), then renamed over <file>.
+ * - If the process dies after the commit point, recoverPendingWrite() finishes
+ *   the replacement on the next start; a half-written .journal.tmp is discarded.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const LOCK_STALE_MS = 30000;
+// How often a held lock is touched; well inside LOCK_STALE_MS
+const LOCK_HEARTBEAT_MS = 5000;
+// Longer than LOCK_STALE_MS, so a writer waiting on a crashed holder's lock breaks it instead of timing out
+const LOCK_TIMEOUT_MS = 45000;
+const LOCK_RETRY_MS = 25;
+
+const queues = new Map<string, Promise<unknown>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const journalPath = (filePath: string) => `${filePath}.journal`;
+const journalTmpPath = (filePath: string) => `${filePath}.journal.tmp`;
+const lockPath = (filePath: string) => `${filePath}.lock`;
+
+// False only when the lock names a process that no longer exists on this machine
+const holderAlive = async (lockFile: string): Promise<boolean> => {
+  try {
+    const { pid } = JSON.parse(await fs.promises.readFile(lockFile, 'utf-8'));
+    if (!Number.isInteger(pid)) return true;
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // ESRCH: no such process. Anything else (a lock still being written, EPERM) counts as alive
+    return error.code !== 'ESRCH';
+  }
+};
+
+// Take the cross-process lock, breaking it if its holder died without releasing it
+const acquireLock = async (filePath: string): Promise<void> => {
+  const lockFile = lockPath(filePath);
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const handle = await fs.promises.open(lockFile, 'wx');
+      await handle.writeFile(JSON.stringify({ pid: process.pid, acquired_at: new Date().toISOString() }));
+      await handle.close();
+      return;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+
+    try {
+      const stats = await fs.promises.stat(lockFile);
+      if (Date.now() - stats.mtimeMs > LOCK_STALE_MS || !(await holderAlive(lockFile))) {
+        console.warn(`Removing stale lock ${lockFile}`);
+        await fs.promises.rm(lockFile, { force: true });
+        continue;
+      }
+    } catch {
+      // Lock was released between open and stat; retry immediately
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${path.basename(filePath)}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+};
+
+// Touch the lock while it is held, so waiters can tell a slow holder from a dead one
+const startHeartbeat = (filePath: string): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    const now = new Date();
+    fs.promises.utimes(lockPath(filePath), now, now).catch(() => undefined);
+  }, LOCK_HEARTBEAT_MS);
+  timer.unref();
+  return timer;
+};
+
+const releaseLock = async (filePath: string): Promise<void> => {
+  await fs.promises.rm(lockPath(filePath), { force: true });
+};
+
+const fsyncDir = async (dir: string) => {
+  try {
+    const handle = await fs.promises.open(dir, 'r');
+    await handle.sync();
+    await handle.close();
+  } catch {
+    // Directory fsync is not supported on every platform
+  }
+};
+
+/**
+ * Run fn while holding the lock for filePath. Calls for the same file run one
+ * at a time, in the order they were made.
+ */
+export const withFileLock = async <R>(filePath: string, fn: () => Promise<R>): Promise<R> => {
+  const key = path.resolve(filePath);
+  const previous = queues.get(key) || Promise.resolve();
+
+  const run = previous.catch(() => undefined).then(async () => {
+    await acquireLock(key);
+    const heartbeat = startHeartbeat(key);
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      await releaseLock(key);
+    }
+  });
+
+  const tail = run.catch(() => undefined);
+  queues.set(key, tail);
+  tail.then(() => {
+    if (queues.get(key) === tail) queues.delete(key);
+  });
+
+  return run;
+};
+
+/**
+ * Replace filePath with content via the journal. Call inside withFileLock.
+ */
+export const writeFileAtomic = async (filePath: string, content: string): Promise<void> => {
+  const tmpFile = journalTmpPath(filePath);
+  const journalFile = journalPath(filePath);
+
+  const handle = await fs.promises.open(tmpFile, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  // Commit point: once the journal exists the write will survive a crash
+  await fs.promises.rename(tmpFile, journalFile);
+  await fs.promises.rename(journalFile, filePath);
+  await fsyncDir(path.dirname(filePath));
+};
+
+/**
+ * Finish or discard a write interrupted by a crash. Call before first reading the file.
+ */
+export const recoverPendingWrite = (filePath: string): void => {
+  const journalFile = journalPath(filePath);
+  const tmpFile = journalTmpPath(filePath);
+
+  if (fs.existsSync(journalFile)) {
+    console.warn(`Replaying journaled write for ${path.basename(filePath)}`);
+    fs.renameSync(journalFile, filePath);
+  }
+  if (fs.existsSync(tmpFile)) {
+    fs.rmSync(tmpFile, { force: true });
+  }
+};
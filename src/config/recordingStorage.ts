@@ -0,0 +1,79 @@
+/**
+ * Recording Storage
+ * Where archived call recordings are kept, chosen by RECORDING_STORAGE.
+ * "local" (default) writes files under RECORDINGS_DIR, which is never served
+ * statically; recordings are only read back through the calls API.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from './env';
+
+export interface RecordingStore {
+  name: string;
+  // Write the audio under the key, replacing any earlier copy; returns its size in bytes
+  save(key: string, audio: Readable): Promise<number>;
+  // Size in bytes, or null if nothing is stored under the key
+  size(key: string): Promise<number | null>;
+  // Read the audio, or the inclusive byte range of it
+  read(key: string, range?: { start: number; end: number }): Readable;
+  // Delete the audio; deleting a missing key is not an error
+  remove(key: string): Promise<void>;
+}
+
+export const createLocalRecordingStore = (dir: string): RecordingStore => {
+  // Keys are our own IDs, but never let one point outside the directory
+  const fileFor = (key: string) => {
+    const file = path.resolve(dir, key);
+    if (path.dirname(file) !== path.resolve(dir)) {
+      throw new Error(`Invalid recording key "${key}"`);
+    }
+    return file;
+  };
+
+  return {
+    name: 'local',
+
+    async save(key, audio) {
+      const file = fileFor(key);
+      const partial = `${file}.partial`;
+      await fs.promises.mkdir(dir, { recursive: true });
+      try {
+        await pipeline(audio, fs.createWriteStream(partial));
+        await fs.promises.rename(partial, file);
+      } catch (error) {
+        await fs.promises.rm(partial, { force: true });
+        throw error;
+      }
+      return (await fs.promises.stat(file)).size;
+    },
+
+    async size(key) {
+      try {
+        return (await fs.promises.stat(fileFor(key))).size;
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    read(key, range) {
+      return fs.createReadStream(fileFor(key), range);
+    },
+
+    async remove(key) {
+      await fs.promises.rm(fileFor(key), { force: true });
+    }
+  };
+};
+
+let store: RecordingStore | null = null;
+
+export const getRecordingStore = (): RecordingStore => {
+  if (!store) {
+    store = createLocalRecordingStore(config.recordings.dir);
+  }
+  return store;
+};
@@ -0,0 +1,1041 @@
+/**
+ * Repositories
+ * Typed data access for every entity. The storage backend is chosen by
+ * STORAGE_BACKEND: "file" (default; CSV under database/, JSON under data/)
+ * or "sqlite" (single database file at SQLITE_PATH).
+ */
+
+import bcrypt from 'bcryptjs';
+import { Collection, CollectionDefinition, StorageBackend } from './storageBackend';
+import { createFileBackend } from './storage';
+import { createSqliteBackend } from './sqliteStorage';
+import { normalizePhone } from '../utils/phone';
+import {
+  Property, Tenant, Lead, User, Session, OtpCode, Agent, Call,
+  BrandGuide, Integration, Dataset, LeadHistoryEntry, WebhookEvent, WebhookEventStatus,
+  CallDirection, CallOutcome, Campaign, CampaignStatus, CampaignContact, CampaignContactStatus,
+  DncEntry, ComplianceAuditEntry, CallTranscript, TranscriptTurn, CallRecording, CallRecordingStatus,
+  ConversationSyncState, PhoneNumberRoute, AgentConfigVersion
+} from '../models/types';
+import { config } from './env';
+
+export const PROPERTY_HEADERS = [
+  'property_id', 'property_code', 'title', 'address', 'city', 'locality',
+  'rent', 'available_from', 'bedrooms', 'bathrooms', 'area_sqft',
+  'amenities', 'furnishing', 'status', 'owner_id', 'owner_name',
+  'owner_phone', 'description', 'photos', 'created_at', 'updated_at'
+];
+
+export const TENANT_HEADERS = [
+  'tenant_id', 'name', 'phone', 'whatsapp_number', 'email',
+  'city', 'localities', 'budget_min', 'budget_max',
+  'move_in_date', 'bedrooms', 'amenities', 'preferences',
+  'source', 'consent_timestamp', 'consent_scope', 'created_at', 'updated_at'
+];
+
+export const LEAD_HEADERS = [
+  'lead_id', 'tenant_id', 'property_id', 'property_code',
+  'channel', 'call_recording_url', 'transcript', 'nlp_extracted',
+  'match_score', 'match_breakdown', 'owner_notified', 'owner_user_id',
+  'claimed_at', 'claim_expires_at', 'dialled_number', 'routed_owner_id',
+  'status', 'created_at', 'updated_at'
+];
+
+export const COLLECTIONS = {
+  properties: { name: 'properties', idField: 'property_id', csv: { file: 'flats.csv', headers: PROPERTY_HEADERS }, indexes: ['owner_id', 'status'] },
+  tenants: { name: 'tenants', idField: 'tenant_id', csv: { file: 'tenants.csv', headers: TENANT_HEADERS } },
+  leads: { name: 'leads', idField: 'lead_id', csv: { file: 'leads.csv', headers: LEAD_HEADERS }, indexes: ['tenant_id', 'property_id', 'status'] },
+  leadHistory: { name: 'lead_history', idField: 'id', indexes: ['lead_id'] },
+  users: { name: 'users', idField: 'id' },
+  sessions: { name: 'sessions', idField: 'id', indexes: ['user_id'] },
+  otpCodes: { name: 'otp_codes', idField: 'phone' },
+  agents: { name: 'agents', idField: 'id', indexes: ['builder_id'] },
+  agentConfigVersions: { name: 'agent_config_versions', idField: 'id', indexes: ['agent_id'] },
+  phoneNumbers: { name: 'phone_numbers', idField: 'id', indexes: ['builder_id'] },
+  calls: { name: 'calls', idField: 'id', indexes: ['provider_call_id', 'tenant_id', 'lead_id'] },
+  callTranscripts: { name: 'call_transcripts', idField: 'call_id' },
+  callRecordings: { name: 'call_recordings', idField: 'id', indexes: ['call_id', 'status'] },
+  conversationSync: { name: 'conversation_sync', idField: 'agent_id' },
+  brandGuides: { name: 'brand_guides', idField: 'id', indexes: ['builder_id'] },
+  integrations: { name: 'integrations', idField: 'id', indexes: ['builder_id'] },
+  datasets: { name: 'datasets', idField: 'id', indexes: ['builder_id'] },
+  webhookEvents: { name: 'webhook_events', idField: 'id', indexes: ['delivery_id', 'status'] },
+  campaigns: { name: 'campaigns', idField: 'id', indexes: ['builder_id', 'status'] },
+  campaignContacts: { name: 'campaign_contacts', idField: 'id', indexes: ['campaign_id', 'status'] },
+  dncEntries: { name: 'dnc_entries', idField: 'id', indexes: ['phone'] },
+  complianceAudit: { name: 'compliance_audit', idField: 'id', indexes: ['phone', 'tenant_id'] }
+} satisfies Record<string, CollectionDefinition>;
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// CSV columns hold lists as comma-separated strings
+const toListString = (value: any): string =>
+  typeof value === 'string' ? value : (Array.isArray(value) ? value.join(', ') : '');
+
+const newestFirst = (getDate: (record: any) => string | undefined) => (a: any, b: any) =>
+  new Date(getDate(b) || 0).getTime() - new Date(getDate(a) || 0).getTime();
+
+let backend: StorageBackend | null = null;
+
+// Backends are created on first use so environment variables are loaded by then
+export const getStorageBackend = (): StorageBackend => {
+  if (!backend) {
+    backend = config.storage.backend === 'sqlite'
+      ? createSqliteBackend(config.storage.sqlitePath)
+      : createFileBackend();
+    console.log(`Using ${backend.name} storage backend`);
+  }
+  return backend;
+};
+
+const collectionCache: Record<string, Collection<any>> = {};
+
+const collection = <T>(definition: CollectionDefinition): Collection<T> => {
+  if (!collectionCache[definition.name]) {
+    collectionCache[definition.name] = getStorageBackend().collection<T>(definition);
+  }
+  return collectionCache[definition.name];
+};
+
+const properties = () => collection<Property>(COLLECTIONS.properties);
+const tenants = () => collection<Tenant>(COLLECTIONS.tenants);
+const leads = () => collection<Lead>(COLLECTIONS.leads);
+const leadHistory = () => collection<LeadHistoryEntry>(COLLECTIONS.leadHistory);
+const users = () => collection<User>(COLLECTIONS.users);
+const sessions = () => collection<Session>(COLLECTIONS.sessions);
+const otpCodes = () => collection<OtpCode>(COLLECTIONS.otpCodes);
+const agents = () => collection<Agent>(COLLECTIONS.agents);
+const agentConfigVersions = () => collection<AgentConfigVersion>(COLLECTIONS.agentConfigVersions);
+const phoneNumbers = () => collection<PhoneNumberRoute>(COLLECTIONS.phoneNumbers);
+const calls = () => collection<Call>(COLLECTIONS.calls);
+const callTranscripts = () => collection<CallTranscript>(COLLECTIONS.callTranscripts);
+const callRecordings = () => collection<CallRecording>(COLLECTIONS.callRecordings);
+const conversationSync = () => collection<ConversationSyncState>(COLLECTIONS.conversationSync);
+const brandGuides = () => collection<BrandGuide>(COLLECTIONS.brandGuides);
+const integrations = () => collection<Integration>(COLLECTIONS.integrations);
+const datasets = () => collection<Dataset>(COLLECTIONS.datasets);
+const webhookEvents = () => collection<WebhookEvent>(COLLECTIONS.webhookEvents);
+const campaigns = () => collection<Campaign>(COLLECTIONS.campaigns);
+const campaignContacts = () => collection<CampaignContact>(COLLECTIONS.campaignContacts);
+const dncEntries = () => collection<DncEntry>(COLLECTIONS.dncEntries);
+const complianceAudit = () => collection<ComplianceAuditEntry>(COLLECTIONS.complianceAudit);
+
+const buildProperty = (propertyData: Partial<Property>): Property => ({
+  property_id: propertyData.property_id || generateId('prop'),
+  property_code: propertyData.property_code || '',
+  title: propertyData.title || '',
+  address: propertyData.address || '',
+  city: propertyData.city || '',
+  locality: propertyData.locality || '',
+  rent: propertyData.rent || '',
+  available_from: propertyData.available_from || '',
+  bedrooms: propertyData.bedrooms || '',
+  bathrooms: propertyData.bathrooms || '',
+  area_sqft: propertyData.area_sqft || '',
+  amenities: toListString(propertyData.amenities),
+  furnishing: propertyData.furnishing || '',
+  status: propertyData.status || 'available',
+  owner_id: propertyData.owner_id || '',
+  owner_name: propertyData.owner_name || '',
+  owner_phone: propertyData.owner_phone || '',
+  description: propertyData.description || '',
+  photos: toListString(propertyData.photos),
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString()
+});
+
+export interface PropertyRepository {
+  list(filters?: { owner_id?: string; city?: string; status?: string }): Promise<Property[]>;
+  getById(propertyId: string): Promise<Property | null>;
+  getByCode(propertyCode: string): Promise<Property | null>;
+  create(propertyData: Partial<Property>): Promise<Property>;
+  createMany(propertyDataList: Partial<Property>[]): Promise<Property[]>;
+  update(propertyId: string, updates: Partial<Property>): Promise<Property | null>;
+  delete(propertyId: string): Promise<boolean>;
+}
+
+export interface TenantRepository {
+  list(filters?: { phone?: string; city?: string }): Promise<Tenant[]>;
+  getById(tenantId: string): Promise<Tenant | null>;
+  getByPhone(phone: string): Promise<Tenant | null>;
+  create(tenantData: Partial<Tenant>): Promise<Tenant>;
+  update(tenantId: string, updates: Partial<Tenant>): Promise<Tenant | null>;
+}
+
+export interface LeadRepository {
+  list(filters?: { owner_id?: string; tenant_id?: string; property_id?: string; status?: string }): Promise<Lead[]>;
+  getById(leadId: string): Promise<Lead | null>;
+  create(leadData: Partial<Lead>): Promise<Lead>;
+  update(leadId: string, updates: Partial<Lead>): Promise<Lead | null>;
+}
+
+// Append-only: entries are never updated or deleted
+export interface LeadHistoryRepository {
+  append(entry: Omit<LeadHistoryEntry, 'id' | 'created_at'>): Promise<LeadHistoryEntry>;
+  listByLead(leadId: string): Promise<LeadHistoryEntry[]>;
+}
+
+export interface UserRepository {
+  list(): Promise<User[]>;
+  getById(id: string): Promise<User | null>;
+  getByEmail(email: string): Promise<User | null>;
+  getByPhone(phone: string): Promise<User | null>;
+  create(userData: { email: string; password?: string; name: string; company_name?: string; phone?: string; user_type?: string }): Promise<User>;
+  update(id: string, updates: Partial<Pick<User, 'name' | 'company_name' | 'user_type'>>): Promise<User | null>;
+  verifyPassword(password: string, hashedPassword: string): Promise<boolean>;
+}
+
+export interface SessionRepository {
+  getById(sessionId: string): Promise<Session | null>;
+  listByUser(userId: string): Promise<Session[]>;
+  create(sessionData: Omit<Session, 'id' | 'revoked_at' | 'created_at' | 'updated_at'>): Promise<Session>;
+  update(sessionId: string, updates: Partial<Session>): Promise<Session | null>;
+  revokeAllForUser(userId: string, reason: string): Promise<number>;
+}
+
+export interface OtpCodeRepository {
+  get(phone: string): Promise<OtpCode | null>;
+  upsert(otpData: Partial<OtpCode> & { phone: string }): Promise<OtpCode>;
+  delete(phone: string): Promise<boolean>;
+}
+
+export interface AgentRepository {
+  listByBuilder(builderId: string): Promise<Agent[]>;
+  listAll(): Promise<Agent[]>;
+  create(agentData: Omit<Agent, 'id' | 'created_at' | 'updated_at'>): Promise<Agent>;
+  update(elevenAgentId: string, builderId: string, updates: Partial<Agent>): Promise<Agent | null>;
+  delete(elevenAgentId: string, builderId: string): Promise<boolean>;
+}
+
+export interface AgentConfigVersionRepository {
+  // Newest version first
+  listByAgent(agentId: string): Promise<AgentConfigVersion[]>;
+  getLatest(agentId: string): Promise<AgentConfigVersion | null>;
+  getByVersion(agentId: string, version: number): Promise<AgentConfigVersion | null>;
+  create(versionData: Omit<AgentConfigVersion, 'id' | 'created_at'>): Promise<AgentConfigVersion>;
+}
+
+export interface PhoneNumberRepository {
+  list(filters?: { builder_id?: string }): Promise<PhoneNumberRoute[]>;
+  getById(routeId: string): Promise<PhoneNumberRoute | null>;
+  // The route for a number however it is written
+  getByNumber(number: string): Promise<PhoneNumberRoute | null>;
+  create(routeData: Omit<PhoneNumberRoute, 'id' | 'created_at' | 'updated_at'>): Promise<PhoneNumberRoute>;
+  update(routeId: string, updates: Partial<PhoneNumberRoute>): Promise<PhoneNumberRoute | null>;
+  delete(routeId: string): Promise<boolean>;
+}
+
+export interface CallFilters {
+  builder_id?: string;
+  tenant_id?: string;
+  lead_id?: string;
+  provider?: string;
+  direction?: CallDirection;
+  outcome?: CallOutcome;
+}
+
+export interface CallRepository {
+  list(filters?: CallFilters): Promise<Call[]>;
+  getById(callId: string): Promise<Call | null>;
+  getByProviderCallId(provider: string, providerCallId: string): Promise<Call | null>;
+  create(callData: Partial<Call> & Pick<Call, 'provider' | 'provider_call_id' | 'direction'>): Promise<Call>;
+  update(callId: string, updates: Partial<Call>): Promise<Call | null>;
+}
+
+// One transcript per call, stored apart from the call so call lists stay small
+export interface CallTranscriptRepository {
+  getByCall(callId: string): Promise<CallTranscript | null>;
+  save(callId: string, turns: TranscriptTurn[]): Promise<CallTranscript>;
+}
+
+export interface CallRecordingRepository {
+  list(filters?: { status?: CallRecordingStatus }): Promise<CallRecording[]>;
+  getById(recordingId: string): Promise<CallRecording | null>;
+  getByCall(callId: string): Promise<CallRecording | null>;
+  create(recordingData: Omit<CallRecording, 'id' | 'created_at' | 'updated_at'>): Promise<CallRecording>;
+  update(recordingId: string, updates: Partial<CallRecording>): Promise<CallRecording | null>;
+}
+
+// One sync position per ElevenLabs agent
+export interface ConversationSyncRepository {
+  list(): Promise<ConversationSyncState[]>;
+  getByAgent(agentId: string): Promise<ConversationSyncState | null>;
+  save(agentId: string, updates: Partial<Omit<ConversationSyncState, 'agent_id' | 'created_at' | 'updated_at'>>): Promise<ConversationSyncState>;
+}
+
+export interface BrandGuideRepository {
+  getByBuilder(builderId: string): Promise<BrandGuide | null>;
+  upsert(guideData: Partial<BrandGuide> & { builder_id: string }): Promise<BrandGuide>;
+}
+
+export interface IntegrationRepository {
+  listByBuilder(builderId: string): Promise<Integration[]>;
+  get(builderId: string, toolType: string): Promise<Integration | null>;
+  upsert(integrationData: Partial<Integration> & { builder_id: string; tool_type: string }): Promise<Integration>;
+  delete(builderId: string, toolType: string): Promise<boolean>;
+}
+
+export interface DatasetRepository {
+  listByBuilder(builderId: string): Promise<Dataset[]>;
+  getById(datasetId: string, builderId: string): Promise<Dataset | null>;
+  create(datasetData: Omit<Dataset, 'id' | 'uploaded_at'>): Promise<Dataset>;
+  delete(datasetId: string, builderId: string): Promise<boolean>;
+}
+
+export interface WebhookEventFilters {
+  provider?: string;
+  status?: WebhookEventStatus;
+  event_type?: string;
+  call_id?: string;
+  // Received-at range, inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface WebhookEventRepository {
+  list(filters?: WebhookEventFilters): Promise<WebhookEvent[]>;
+  getById(eventId: string): Promise<WebhookEvent | null>;
+  getByDelivery(provider: string, deliveryId: string): Promise<WebhookEvent | null>;
+  create(eventData: Omit<WebhookEvent, 'id' | 'attempts' | 'result' | 'error' | 'processed_at' | 'received_at' | 'updated_at'>): Promise<WebhookEvent>;
+  update(eventId: string, updates: Partial<WebhookEvent>): Promise<WebhookEvent | null>;
+}
+
+export interface CampaignRepository {
+  list(filters?: { builder_id?: string; status?: CampaignStatus }): Promise<Campaign[]>;
+  getById(campaignId: string): Promise<Campaign | null>;
+  create(campaignData: Omit<Campaign, 'id' | 'status' | 'started_at' | 'finished_at' | 'created_at' | 'updated_at'>): Promise<Campaign>;
+  update(campaignId: string, updates: Partial<Campaign>): Promise<Campaign | null>;
+}
+
+export interface CampaignContactRepository {
+  listByCampaign(campaignId: string, status?: CampaignContactStatus): Promise<CampaignContact[]>;
+  createMany(campaignId: string, contacts: Pick<CampaignContact, 'tenant_id' | 'name' | 'phone'>[]): Promise<CampaignContact[]>;
+  update(contactId: string, updates: Partial<CampaignContact>): Promise<CampaignContact | null>;
+}
+
+export interface DncRepository {
+  // Active entries only, unless includeRemoved
+  list(filters?: { phone?: string; includeRemoved?: boolean }): Promise<DncEntry[]>;
+  getById(entryId: string): Promise<DncEntry | null>;
+  getActiveByPhone(phone: string): Promise<DncEntry | null>;
+  create(entryData: Pick<DncEntry, 'phone' | 'reason' | 'source' | 'note' | 'added_by'>): Promise<DncEntry>;
+  update(entryId: string, updates: Partial<DncEntry>): Promise<DncEntry | null>;
+}
+
+// Append-only, like lead history
+export interface ComplianceAuditRepository {
+  append(entry: Omit<ComplianceAuditEntry, 'id' | 'created_at'>): Promise<ComplianceAuditEntry>;
+  list(filters?: { phone?: string; tenant_id?: string; action?: ComplianceAuditEntry['action'] }): Promise<ComplianceAuditEntry[]>;
+}
+
+const propertyRepository: PropertyRepository = {
+  async list(filters) {
+    let filtered = await properties().list({
+      owner_id: filters?.owner_id,
+      status: filters?.status
+    });
+    if (filters?.city) {
+      filtered = filtered.filter(p => p.city?.toLowerCase() === filters.city?.toLowerCase());
+    }
+    return filtered;
+  },
+
+  async getById(propertyId) {
+    return properties().get(propertyId);
+  },
+
+  async getByCode(propertyCode) {
+    const all = await properties().list();
+    return all.find(p => p.property_code?.toLowerCase() === propertyCode?.toLowerCase()) || null;
+  },
+
+  async create(propertyData) {
+    return properties().insert(buildProperty(propertyData));
+  },
+
+  async createMany(propertyDataList) {
+    return properties().insertMany(propertyDataList.map(buildProperty));
+  },
+
+  async update(propertyId, updates) {
+    return properties().update(propertyId, { ...updates, updated_at: new Date().toISOString() });
+  },
+
+  async delete(propertyId) {
+    return properties().remove(propertyId);
+  }
+};
+
+const tenantRepository: TenantRepository = {
+  async list(filters) {
+    let filtered = await tenants().list();
+    if (filters?.phone) {
+      const filterPhone = normalizePhone(filters.phone);
+      filtered = filtered.filter(t =>
+        normalizePhone(t.phone || '') === filterPhone || normalizePhone(t.whatsapp_number || '') === filterPhone
+      );
+    }
+    if (filters?.city) {
+      filtered = filtered.filter(t => t.city?.toLowerCase() === filters.city?.toLowerCase());
+    }
+    return filtered;
+  },
+
+  async getById(tenantId) {
+    return tenants().get(tenantId);
+  },
+
+  async getByPhone(phone) {
+    const normalizedPhone = normalizePhone(phone);
+    if (!normalizedPhone) return null;
+    const all = await tenants().list();
+    return all.find(t =>
+      normalizePhone(t.phone || '') === normalizedPhone || normalizePhone(t.whatsapp_number || '') === normalizedPhone
+    ) || null;
+  },
+
+  async create(tenantData) {
+    return tenants().insert({
+      tenant_id: tenantData.tenant_id || generateId('tenant'),
+      name: tenantData.name || '',
+      phone: tenantData.phone || '',
+      whatsapp_number: tenantData.whatsapp_number || tenantData.phone || '',
+      email: tenantData.email || '',
+      city: tenantData.city || '',
+      localities: toListString(tenantData.localities),
+      budget_min: tenantData.budget_min || '',
+      budget_max: tenantData.budget_max || '',
+      move_in_date: tenantData.move_in_date || '',
+      bedrooms: tenantData.bedrooms || '',
+      amenities: toListString(tenantData.amenities),
+      preferences: typeof tenantData.preferences === 'string' ? tenantData.preferences : JSON.stringify(tenantData.preferences || {}),
+      source: tenantData.source || 'call',
+      // No consent unless it was given; complianceService.giveConsent() records it
+      consent_timestamp: tenantData.consent_timestamp || '',
+      consent_scope: toListString(tenantData.consent_scope),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  },
+
+  async update(tenantId, updates) {
+    return tenants().update(tenantId, { ...updates, updated_at: new Date().toISOString() });
+  }
+};
+
+const leadRepository: LeadRepository = {
+  async list(filters) {
+    let filtered = await leads().list({
+      tenant_id: filters?.tenant_id,
+      property_id: filters?.property_id,
+      status: filters?.status
+    });
+
+    // If owner_id filter, need to join with properties
+    if (filters?.owner_id) {
+      const ownerProperties = await propertyRepository.list({ owner_id: filters.owner_id });
+      const propertyIds = ownerProperties.map(p => p.property_id);
+      filtered = filtered.filter(l => propertyIds.includes(l.property_id) || l.routed_owner_id === filters.owner_id);
+    }
+
+    return filtered.sort(newestFirst(l => l.created_at));
+  },
+
+  async getById(leadId) {
+    return leads().get(leadId);
+  },
+
+  async create(leadData) {
+    return leads().insert({
+      lead_id: leadData.lead_id || generateId('lead'),
+      tenant_id: leadData.tenant_id || '',
+      property_id: leadData.property_id || '',
+      property_code: leadData.property_code || '',
+      channel: leadData.channel || 'call',
+      call_recording_url: leadData.call_recording_url || '',
+      transcript: leadData.transcript || '',
+      nlp_extracted: typeof leadData.nlp_extracted === 'string' ? leadData.nlp_extracted : JSON.stringify(leadData.nlp_extracted || {}),
+      match_score: leadData.match_score || '',
+      match_breakdown: leadData.match_breakdown || '',
+      owner_notified: leadData.owner_notified || 'false',
+      owner_user_id: leadData.owner_user_id || '',
+      claimed_at: leadData.claimed_at || '',
+      claim_expires_at: leadData.claim_expires_at || '',
+      dialled_number: leadData.dialled_number || '',
+      routed_owner_id: leadData.routed_owner_id || '',
+      status: leadData.status || 'new',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  },
+
+  async update(leadId, updates) {
+    return leads().update(leadId, { ...updates, updated_at: new Date().toISOString() });
+  }
+};
+
+const leadHistoryRepository: LeadHistoryRepository = {
+  async append(entry) {
+    return leadHistory().insert({
+      id: generateId('leadhist'),
+      ...entry,
+      created_at: new Date().toISOString()
+    });
+  },
+
+  // Oldest first, in the order the changes happened
+  async listByLead(leadId) {
+    return leadHistory().list({ lead_id: leadId });
+  }
+};
+
+const userRepository: UserRepository = {
+  async list() {
+    return users().list();
+  },
+
+  async getById(id) {
+    return users().get(id);
+  },
+
+  async getByEmail(email) {
+    const [user] = await users().list({ email });
+    return user || null;
+  },
+
+  async getByPhone(phone) {
+    const normalizedPhone = normalizePhone(phone);
+    if (!normalizedPhone) return null;
+    const all = await users().list();
+    return all.find(u => normalizePhone(u.phone || '') === normalizedPhone) || null;
+  },
+
+  // Password is optional: users created through OTP login have none
+  async create(userData) {
+    const hashedPassword = userData.password ? await bcrypt.hash(userData.password, 10) : null;
+    return users().insert({
+      id: generateId('user'),
+      email: userData.email,
+      password: hashedPassword,
+      name: userData.name,
+      company_name: userData.company_name || null,
+      phone: userData.phone || null,
+      user_type: userData.user_type || 'tenant',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  },
+
+  async update(id, updates) {
+    return users().update(id, { ...updates, updated_at: new Date().toISOString() });
+  },
+
+  async verifyPassword(password, hashedPassword) {
+    return bcrypt.compare(password, hashedPassword);
+  }
+};
+
+// Sessions (one per login/device; holds the hash of the current refresh token)
+const sessionRepository: SessionRepository = {
+  async getById(sessionId) {
+    return sessions().get(sessionId);
+  },
+
+  async listByUser(userId) {
+    return sessions().list({ user_id: userId });
+  },
+
+  async create(sessionData) {
+    return sessions().insert({
+      id: generateId('session'),
+      ...sessionData,
+      revoked_at: null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  },
+
+  async update(sessionId, updates) {
+    return sessions().update(sessionId, { ...updates, updated_at: new Date().toISOString() });
+  },
+
+  async revokeAllForUser(userId, reason) {
+    const active = await sessions().list({ user_id: userId, revoked_at: null });
+    const now = new Date().toISOString();
+    for (const session of active) {
+      await sessions().update(session.id, { revoked_at: now, revoked_reason: reason, updated_at: now });
+    }
+    return active.length;
+  }
+};
+
+// OTP codes (one active record per normalized phone number)
+const otpCodeRepository: OtpCodeRepository = {
+  async get(phone) {
+    return otpCodes().get(phone);
+  },
+
+  async upsert(otpData) {
+    const now = new Date().toISOString();
+    return otpCodes().upsert(otpData.phone, { ...otpData, updated_at: now }, {
+      code_hash: null,
+      expires_at: '',
+      attempts: 0,
+      last_sent_at: '',
+      send_history: [],
+      ...otpData,
+      created_at: now,
+      updated_at: now
+    });
+  },
+
+  async delete(phone) {
+    return otpCodes().remove(phone);
+  }
+};
+
+const agentRepository: AgentRepository = {
+  async listByBuilder(builderId) {
+    return agents().list({ builder_id: builderId });
+  },
+
+  async listAll() {
+    return agents().list();
+  },
+
+  async create(agentData) {
+    return agents().insert({
+      id: generateId('agent'),
+      ...agentData,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  },
+
+  async update(elevenAgentId, builderId, updates) {
+    const [agent] = await agents().list({ eleven_agent_id: elevenAgentId, builder_id: builderId });
+    if (!agent) return null;
+    return agents().update(agent.id, { ...updates, updated_at: new Date().toISOString() });
+  },
+
+  async delete(elevenAgentId, builderId) {
+    const matching = await agents().list({ eleven_agent_id: elevenAgentId, builder_id: builderId });
+    for (const agent of matching) {
+      await agents().remove(agent.id);
+    }
+    return true;
+  }
+};
+
+const agentConfigVersionRepository: AgentConfigVersionRepository = {
+  async listByAgent(agentId) {
+    const versions = await agentConfigVersions().list({ agent_id: agentId });
+    return versions.sort((a, b) => b.version - a.version);
+  },
+
+  async getLatest(agentId) {
+    const [latest] = await agentConfigVersionRepository.listByAgent(agentId);
+    return latest || null;
+  },
+
+  async getByVersion(agentId, version) {
+    const versions = await agentConfigVersions().list({ agent_id: agentId });
+    return versions.find(v => v.version === version) || null;
+  },
+
+  async create(versionData) {
+    return agentConfigVersions().insert({
+      id: generateId('agentcfg'),
+      ...versionData,
+      created_at: new Date().toISOString()
+    });
+  }
+};
+
+const phoneNumberRepository: PhoneNumberRepository = {
+  async list(filters = {}) {
+    const routes = await phoneNumbers().list({ builder_id: filters.builder_id });
+    return routes.sort(newestFirst(r => r.created_at));
+  },
+
+  async getById(routeId) {
+    return phoneNumbers().get(routeId);
+  },
+
+  async getByNumber(number) {
+    const normalized = normalizePhone(number);
+    if (!normalized) return null;
+    const routes = await phoneNumbers().list();
+    return routes.find(route => normalizePhone(route.number) === normalized) || null;
+  },
+
+  async create(routeData) {
+    const now = new Date().toISOString();
+    return phoneNumbers().insert({ id: generateId('num'), ...routeData, created_at: now, updated_at: now });
+  },
+
+  async update(routeId, updates) {
+    return phoneNumbers().update(routeId, { ...updates, updated_at: new Date().toISOString() });
+  },
+
+  async delete(routeId) {
+    return phoneNumbers().remove(routeId);
+  }
+};
+
+const callRepository: CallRepository = {
+  async list(filters = {}) {
+    const allCalls = await calls().list(filters);
+    return allCalls.sort(newestFirst(c => c.started_at));
+  },
+
+  async getById(callId) {
+    return calls().get(callId);
+  },
+
+  async getByProviderCallId(provider, providerCallId) {
+    const [call] = await calls().list({ provider, provider_call_id: providerCallId });
+    return call || null;
+  },
+
+  async create(callData) {
+    const now = new Date().toISOString();
+    return calls().insert({
+      id: generateId('call'),
+      provider: callData.provider,
+      provider_call_id: callData.provider_call_id,
+      direction: callData.direction,
+      from_number: callData.from_number || '',
+      to_number: callData.to_number || '',
+      agent_id: callData.agent_id || '',
+      tenant_id: callData.tenant_id || '',
+      lead_id: callData.lead_id || '',
+      status: callData.status || 'initiated',
+      outcome: callData.outcome || 'pending',
+      started_at: callData.started_at || now,
+      answered_at: callData.answered_at || null,
+      ended_at: callData.ended_at || null,
+      duration_seconds: callData.duration_seconds ?? null,
+      recording_url: callData.recording_url || '',
+      recording_id: callData.recording_id || null,
+      transcript: callData.transcript || '',
+      metadata: callData.metadata || null,
+      initiated_by: callData.initiated_by || null,
+      builder_id: callData.builder_id || null,
+      created_at: now,
+      updated_at: now
+    });
+  },
+
+  async update(callId, updates) {
+    return calls().update(callId, { ...updates, updated_at: new Date().toISOString() });
+  }
+};
+
+const callTranscriptRepository: CallTranscriptRepository = {
+  async getByCall(callId) {
+    return callTranscripts().get(callId);
+  },
+
+  async save(callId, turns) {
+    const now = new Date().toISOString();
+    return callTranscripts().upsert(callId, { turns, updated_at: now }, { call_id: callId, turns, created_at: now, updated_at: now });
+  }
+};
+
+const callRecordingRepository: CallRecordingRepository = {
+  async list(filters = {}) {
+    return callRecordings().list({ status: filters.status });
+  },
+
+  async getById(recordingId) {
+    return callRecordings().get(recordingId);
+  },
+
+  async getByCall(callId) {
+    const [recording] = await callRecordings().list({ call_id: callId });
+    return recording || null;
+  },
+
+  async create(recordingData) {
+    const now = new Date().toISOString();
+    return callRecordings().insert({ id: generateId('rec'), ...recordingData, created_at: now, updated_at: now });
+  },
+
+  async update(recordingId, updates) {
+    return callRecordings().update(recordingId, { ...updates, updated_at: new Date().toISOString() });
+  }
+};
+
+const conversationSyncRepository: ConversationSyncRepository = {
+  async list() {
+    return conversationSync().list();
+  },
+
+  async getByAgent(agentId) {
+    return conversationSync().get(agentId);
+  },
+
+  async save(agentId, updates) {
+    const now = new Date().toISOString();
+    return conversationSync().upsert(agentId, { ...updates, updated_at: now }, {
+      agent_id: agentId,
+      synced_until_unix: 0,
+      conversations_synced: 0,
+      last_synced_at: null,
+      last_error: null,
+      ...updates,
+      created_at: now,
+      updated_at: now
+    });
+  }
+};
+
+const brandGuideRepository: BrandGuideRepository = {
+  async getByBuilder(builderId) {
+    const [guide] = await brandGuides().list({ builder_id: builderId });
+    return guide || null;
+  },
+
+  async upsert(guideData) {
+    const existing = await brandGuideRepository.getByBuilder(guideData.builder_id);
+    if (existing) {
+      return (await brandGuides().update(existing.id, { ...guideData, updated_at: new Date().toISOString() }))!;
+    }
+
+    return brandGuides().insert({
+      id: generateId('brand'),
+      ...guideData,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    } as BrandGuide);
+  }
+};
+
+const integrationRepository: IntegrationRepository = {
+  async listByBuilder(builderId) {
+    return integrations().list({ builder_id: builderId });
+  },
+
+  async get(builderId, toolType) {
+    const [integration] = await integrations().list({ builder_id: builderId, tool_type: toolType });
+    return integration || null;
+  },
+
+  async upsert(integrationData) {
+    const existing = await integrationRepository.get(integrationData.builder_id, integrationData.tool_type);
+    if (existing) {
+      return (await integrations().update(existing.id, { ...integrationData, updated_at: new Date().toISOString() }))!;
+    }
+
+    return integrations().insert({
+      id: generateId('integration'),
+      ...integrationData,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    } as Integration);
+  },
+
+  async delete(builderId, toolType) {
+    const existing = await integrationRepository.get(builderId, toolType);
+    return existing ? integrations().remove(existing.id) : false;
+  }
+};
+
+const datasetRepository: DatasetRepository = {
+  async listByBuilder(builderId) {
+    const builderDatasets = await datasets().list({ builder_id: builderId });
+    return builderDatasets.sort(newestFirst(d => d.uploaded_at));
+  },
+
+  async getById(datasetId, builderId) {
+    const dataset = await datasets().get(datasetId);
+    return dataset && dataset.builder_id === builderId ? dataset : null;
+  },
+
+  async create(datasetData) {
+    return datasets().insert({
+      id: generateId('dataset'),
+      ...datasetData,
+      uploaded_at: new Date().toISOString()
+    });
+  },
+
+  async delete(datasetId, builderId) {
+    const dataset = await datasetRepository.getById(datasetId, builderId);
+    return dataset ? datasets().remove(datasetId) : false;
+  }
+};
+
+// Every inbound webhook delivery, kept so failures can be replayed
+const webhookEventRepository: WebhookEventRepository = {
+  async list(filters = {}) {
+    const { from, to, ...fields } = filters;
+    const fromTime = from ? Date.parse(from) : -Infinity;
+    const toTime = to ? Date.parse(to) : Infinity;
+
+    // Oldest first, so a replayed range runs in the order it was received
+    return (await webhookEvents().list(fields))
+      .filter(event => {
+        const receivedAt = Date.parse(event.received_at);
+        return receivedAt >= fromTime && receivedAt <= toTime;
+      })
+      .sort((a, b) => a.received_at.localeCompare(b.received_at));
+  },
+
+  async getById(eventId) {
+    return webhookEvents().get(eventId);
+  },
+
+  async getByDelivery(provider, deliveryId) {
+    const [event] = await webhookEvents().list({ provider, delivery_id: deliveryId });
+    return event || null;
+  },
+
+  async create(eventData) {
+    return webhookEvents().insert({
+      id: generateId('whevt'),
+      ...eventData,
+      attempts: 0,
+      result: null,
+      error: null,
+      processed_at: null,
+      received_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  },
+
+  async update(eventId, updates) {
+    return webhookEvents().update(eventId, { ...updates, updated_at: new Date().toISOString() });
+  }
+};
+
+const campaignRepository: CampaignRepository = {
+  async list(filters = {}) {
+    const allCampaigns = await campaigns().list(filters);
+    return allCampaigns.sort(newestFirst(c => c.created_at));
+  },
+
+  async getById(campaignId) {
+    return campaigns().get(campaignId);
+  },
+
+  async create(campaignData) {
+    return campaigns().insert({
+      id: generateId('camp'),
+      ...campaignData,
+      status: 'draft',
+      started_at: null,
+      finished_at: null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  },
+
+  async update(campaignId, updates) {
+    return campaigns().update(campaignId, { ...updates, updated_at: new Date().toISOString() });
+  }
+};
+
+// Contacts are listed in the order they were added, which is the dialing order
+const campaignContactRepository: CampaignContactRepository = {
+  async listByCampaign(campaignId, status) {
+    const contacts = await campaignContacts().list({ campaign_id: campaignId, status });
+    return contacts.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  },
+
+  async createMany(campaignId, contacts) {
+    const now = new Date().toISOString();
+    return campaignContacts().insertMany(contacts.map(contact => ({
+      id: generateId('cc'),
+      campaign_id: campaignId,
+      tenant_id: contact.tenant_id,
+      name: contact.name,
+      phone: contact.phone,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      last_call_id: '',
+      outcome: null,
+      last_error: null,
+      created_at: now,
+      updated_at: now
+    })));
+  },
+
+  async update(contactId, updates) {
+    return campaignContacts().update(contactId, { ...updates, updated_at: new Date().toISOString() });
+  }
+};
+
+const dncRepository: DncRepository = {
+  async list(filters = {}) {
+    const entries = await dncEntries().list({ phone: filters.phone });
+    return entries
+      .filter(entry => filters.includeRemoved || !entry.removed_at)
+      .sort(newestFirst(e => e.created_at));
+  },
+
+  async getById(entryId) {
+    return dncEntries().get(entryId);
+  },
+
+  async getActiveByPhone(phone) {
+    const entries = await dncEntries().list({ phone });
+    return entries.find(entry => !entry.removed_at) || null;
+  },
+
+  async create(entryData) {
+    return dncEntries().insert({
+      id: generateId('dnc'),
+      ...entryData,
+      created_at: new Date().toISOString(),
+      removed_at: null,
+      removed_by: null
+    });
+  },
+
+  async update(entryId, updates) {
+    return dncEntries().update(entryId, updates);
+  }
+};
+
+const complianceAuditRepository: ComplianceAuditRepository = {
+  async append(entry) {
+    return complianceAudit().insert({
+      id: generateId('audit'),
+      ...entry,
+      created_at: new Date().toISOString()
+    });
+  },
+
+  async list(filters = {}) {
+    const entries = await complianceAudit().list(filters);
+    return entries.sort(newestFirst(e => e.created_at));
+  }
+};
+
+export const repository = {
+  properties: propertyRepository,
+  tenants: tenantRepository,
+  leads: leadRepository,
+  leadHistory: leadHistoryRepository,
+  users: userRepository,
+  sessions: sessionRepository,
+  otpCodes: otpCodeRepository,
+  agents: agentRepository,
+  agentConfigVersions: agentConfigVersionRepository,
+  phoneNumbers: phoneNumberRepository,
+  calls: callRepository,
+  callTranscripts: callTranscriptRepository,
+  callRecordings: callRecordingRepository,
+  conversationSync: conversationSyncRepository,
+  brandGuides: brandGuideRepository,
+  integrations: integrationRepository,
+  datasets: datasetRepository,
+  webhookEvents: webhookEventRepository,
+  campaigns: campaignRepository,
+  campaignContacts: campaignContactRepository,
+  dnc: dncRepository,
+  complianceAudit: complianceAuditRepository
+};
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Collection, CollectionDefinition, StorageBackend } from './storageBackend';
+
+// Identifiers come from our own collection definitions, but quote them anyway
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Only allow plain field names inside JSON paths
+const jsonPath = (field: string) => {
+  if (!/^[A-Za-z0-9_]+$/.test(field)) {
+    throw new Error(`Invalid field name: ${field}`);
+  }
+  return `$.${field}`;
+};
+
+/**
+ * SQLite-backed collection: one table per collection with the id in its own
+ * column and the record as a JSON document. Filters use json_extract and the
+ * fields listed in `indexes` get expression indexes.
+ */
+const createSqliteCollection = <T>(db: Database.Database, definition: CollectionDefinition): Collection<T> => {
+  const table = quoteIdent(definition.name);
+  const idField = definition.idField;
+
+  db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+  for (const field of definition.indexes || []) {
+    const indexName = quoteIdent(`idx_${definition.name}_${field}`);
+    db.exec(`CREATE INDEX IF NOT EXISTS ${indexName} ON ${table} (json_extract(data, '${jsonPath(field)}'))`);
+  }
+
+  const selectById = db.prepare(`SELECT data FROM ${table} WHERE id = ?`);
+  const insertRow = db.prepare(`INSERT INTO ${table} (id, data) VALUES (?, ?)`);
+  const updateRow = db.prepare(`UPDATE ${table} SET data = ? WHERE id = ?`);
+  const upsertRow = db.prepare(`INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`);
+  const deleteRow = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+
+  const parse = (row: any): T => JSON.parse(row.data);
+
+  const insertOne = (record: T) => {
+    const id = (record as any)[idField];
+    if (!id) {
+      throw new Error(`Cannot insert into ${definition.name}: missing ${idField}`);
+    }
+    insertRow.run(id, JSON.stringify(record));
+  };
+
+  const insertAll = db.transaction((records: T[]) => {
+    for (const record of records) insertOne(record);
+  });
+
+  const updateOne = db.transaction((id: string, updates: Partial<T>): T | null => {
+    const row = selectById.get(id);
+    if (!row) return null;
+    const updated = { ...parse(row), ...updates };
+    updateRow.run(JSON.stringify(updated), id);
+    return updated;
+  });
+
+  // Run with .immediate() so the write lock is held from the read, and other processes cannot insert in between
+  const upsertOne = db.transaction((id: string, updates: Partial<T>, initial: T): T => {
+    const row = selectById.get(id);
+    const record = row ? { ...parse(row), ...updates } : initial;
+    upsertRow.run(id, JSON.stringify(record));
+    return record;
+  });
+
+  return {
+    async list(filter?: Partial<T>): Promise<T[]> {
+      const clauses: string[] = [];
+      const params: any[] = [];
+
+      for (const [field, value] of Object.entries(filter || {})) {
+        if (value === undefined) continue;
+        if (value === null) {
+          clauses.push(`json_extract(data, '${jsonPath(field)}') IS NULL`);
+        } else {
+          clauses.push(`json_extract(data, '${jsonPath(field)}') = ?`);
+          params.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+        }
+      }
+
+      const where = clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '';
+      const rows = db.prepare(`SELECT data FROM ${table}${where} ORDER BY rowid`).all(...params);
+      return rows.map(parse);
+    },
+
+    async get(id: string): Promise<T | null> {
+      const row = selectById.get(id);
+      return row ? parse(row) : null;
+    },
+
+    async insert(record: T): Promise<T> {
+      insertOne(record);
+      return record;
+    },
+
+    async insertMany(records: T[]): Promise<T[]> {
+      insertAll(records);
+      return records;
+    },
+
+    async update(id: string, updates: Partial<T>): Promise<T | null> {
+      return updateOne(id, updates);
+    },
+
+    async upsert(id: string, updates: Partial<T>, initial: T): Promise<T> {
+      return upsertOne.immediate(id, updates, initial);
+    },
+
+    async remove(id: string): Promise<boolean> {
+      return deleteRow.run(id).changes > 0;
+    }
+  };
+};
+
+/**
+ * Embedded SQLite backend. WAL mode lets several processes share the file.
+ */
+export const createSqliteBackend = (dbPath: string): StorageBackend => {
+  const dir = path.dirname(dbPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+
+  return {
+    name: 'sqlite',
+    collection<T>(definition: CollectionDefinition): Collection<T> {
+      return createSqliteCollection<T>(db, definition);
+    }
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * Storage Backend Interfaces
+ * A backend stores named collections of records keyed by an id field.
+ * Typed repositories in repository.ts are built on top of these collections,
+ * so every backend gets the same domain behaviour.
+ */
+
+export interface CollectionDefinition {
+  // Table name (SQLite) and default JSON file name (data/<name>.json)
+  name: string;
+  // Field holding the record's unique id
+  idField: string;
+  // Store as CSV under database/ instead of JSON (file backend only)
+  csv?: {
+    file: string;
+    headers: string[];
+  };
+  // Override the JSON file name (file backend only)
+  jsonFile?: string;
+  // Fields that are frequently filtered on (SQLite creates indexes for them)
+  indexes?: string[];
+}
+
+export interface Collection<T> {
+  // All records matching every field of the filter (strict equality), in insertion order
+  list(filter?: Partial<T>): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  insert(record: T): Promise<T>;
+  insertMany(records: T[]): Promise<T[]>;
+  // Shallow-merge updates into the record; returns the updated record or null if missing
+  update(id: string, updates: Partial<T>): Promise<T | null>;
+  // Shallow-merge updates into the record, or insert `initial` if there is none, as one write
+  upsert(id: string, updates: Partial<T>, initial: T): Promise<T>;
+  remove(id: string): Promise<boolean>;
+}
+
+export interface StorageBackend {
+  name: string;
+  collection<T>(definition: CollectionDefinition): Collection<T>;
+}
+
+export const matchesFilter = <T>(record: T, filter?: Partial<T>): boolean => {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, value]) =>
+    value === undefined || (record as any)[key] === value
+  );
+};
@@ -1,22 +1,12 @@
-// Load environment variables FIRST, before any other imports
-import dotenv from 'dotenv';
-import path from 'path';
-
-// Load .env file - try current working directory first (when running from backend/)
-const envPath = path.resolve(process.cwd(), '.env');
-const result = dotenv.config({ path: envPath });
-
-// If not found, try relative to this file location
-if (result.error || !process.env.ELEVENLABS_API_KEY) {
-  const altEnvPath = path.resolve(__dirname, '../.env');
-  dotenv.config({ path: altEnvPath });
-}
+// Load and validate configuration FIRST, before any other imports
+import { config } from './config/env';
 
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import { errorHandler } from './middleware/errorHandler';
+import { RawBodyRequest } from './middleware/webhookSignature';
 import { authRouter } from './routes/auth';
 import { agentsRouter } from './routes/agents';
 import { callsRouter } from './routes/calls';
@@ -26,25 +16,38 @@ import { webhooksRouter } from './routes/webhooks';
 import { propertiesRouter } from './routes/properties';
 import { tenantsRouter } from './routes/tenants';
 import { leadsRouter } from './routes/leads';
+import { campaignsRouter } from './routes/campaigns';
+import { complianceRouter } from './routes/compliance';
+import { phoneNumbersRouter } from './routes/phoneNumbers';
+import { leadService } from './services/leads';
+import { campaignService } from './services/campaigns';
+import { recordingService } from './services/recordings';
+import { conversationSyncService } from './services/conversationSync';
 
 const app = express();
-// Cloud Run uses PORT environment variable, default to 8080 for Cloud Run, 3001 for local
-const PORT = process.env.PORT || 3001;
+// Cloud Run sets PORT; 3001 locally
+const PORT = config.port;
 
 // Middleware
 app.use(helmet());
 app.use(cors({
-  origin: '*', // Allow all origins
+  // CORS_ORIGINS; "*" allows all origins
+  origin: config.corsOrigins.includes('*') ? '*' : config.corsOrigins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 app.use(morgan('dev'));
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw bytes for webhook signature verification
+  verify: (req, res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Serve static files (uploads)
-app.use('/uploads', express.static('uploads'));
+app.use('/uploads', express.static(config.storage.uploadsDir));
 
 // Health check
 app.get('/health', (req, res) => {
@@ -61,11 +64,18 @@ app.use('/api/webhooks', webhooksRouter);
 app.use('/api/properties', propertiesRouter);
 app.use('/api/tenants', tenantsRouter);
 app.use('/api/leads', leadsRouter);
+app.use('/api/campaigns', campaignsRouter);
+app.use('/api/compliance', complianceRouter);
+app.use('/api/phone-numbers', phoneNumbersRouter);
 
 // Error handling
 app.use(errorHandler);
 
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
+  leadService.scheduleClaimExpiry();
+  campaignService.scheduleRunner();
+  recordingService.scheduleSweep();
+  conversationSyncService.scheduleSync();
 });
 
@@ -1,27 +1,90 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { createError } from './errorHandler';
+import { repository } from '../config/repository';
+import { isSessionActive } from '../services/session';
+import { USER_TYPES, UserType } from '../models/types';
+import { config } from '../config/env';
+
+export type { UserType };
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  phone?: string;
+  builderId: string;
+  user_type: UserType;
+  sessionId: string;
+}
 
 export interface AuthRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    builderId: string;
-  };
+  user?: AuthUser;
+}
+
+// Claims we put into tokens issued by authRouter
+interface TokenPayload {
+  id: string;
+  email: string;
+  phone?: string;
+  builderId?: string;
+  user_type?: string;
+  sid?: string;
 }
 
-export const authenticate = (
+export const authenticate = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
-  // Allow all requests - no authentication required
-  // Set a default user for compatibility
-  req.user = {
-    id: 'guest',
-    email: 'guest@homemates.com',
-    builderId: 'guest'
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return next(createError('Authentication required', 401));
+  }
+
+  const secret = config.auth.jwtSecret;
+
+  try {
+    const payload = jwt.verify(token, secret) as TokenPayload;
+
+    // Access tokens are bound to a session so logout takes effect before they expire
+    if (!payload.sid || !isSessionActive(await repository.sessions.getById(payload.sid))) {
+      return next(createError('Session has been revoked', 401));
+    }
+
+    const userType = USER_TYPES.includes(payload.user_type as UserType)
+      ? (payload.user_type as UserType)
+      : 'tenant';
+
+    req.user = {
+      id: payload.id,
+      email: payload.email,
+      phone: payload.phone,
+      builderId: payload.builderId || payload.id,
+      user_type: userType,
+      sessionId: payload.sid
     };
     next();
+  } catch (error: any) {
+    const message = error.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid token';
+    next(createError(message, 401));
+  }
 };
 
+// Restrict a route to the given user types. Admins pass every role check.
+export const requireRole = (...roles: UserType[]) => (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user) {
+    return next(createError('Authentication required', 401));
+  }
+
+  if (req.user.user_type !== 'admin' && !roles.includes(req.user.user_type)) {
+    return next(createError(`This action requires one of the roles: ${roles.join(', ')}`, 403));
+  }
+
+  next();
+};
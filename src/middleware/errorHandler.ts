@@ -1,8 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
 
 export interface AppError extends Error {
   statusCode?: number;
   status?: string;
+  errors?: FieldError[];
 }
 
 export const errorHandler = (
@@ -17,7 +24,8 @@ export const errorHandler = (
   res.status(statusCode).json({
     status,
     message: err.message || 'Internal server error',
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+    ...(err.errors && { errors: err.errors }),
+    ...(config.exposeErrorStacks && { stack: err.stack })
   });
 };
 
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { Schema, checkExact, checkSchema, matchedData, validationResult } from 'express-validator';
+import { createError, FieldError } from './errorHandler';
+
+// Every bad field from the validation run, first error per field
+const fieldErrors = (req: any): FieldError[] =>
+  validationResult(req).array({ onlyFirstError: true }).flatMap((error): FieldError[] => {
+    if (error.type === 'field') {
+      return [{ field: error.path, message: error.msg }];
+    }
+    if (error.type === 'unknown_fields') {
+      return error.fields.map(field => ({ field: field.path, message: 'Unknown field' }));
+    }
+    return [{ field: '', message: error.msg }];
+  });
+
+/**
+ * Validate req.body against a schema from models/schemas.
+ * Unknown fields are rejected; on success req.body is replaced with the
+ * sanitized, schema-declared fields only. Failures become a 400 listing every bad field.
+ */
+export const validateBody = (schema: Schema) => {
+  const chains = checkSchema(schema, ['body']);
+  const exact = checkExact(chains, { locations: ['body'] });
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await chains.run(req);
+      await exact.run(req);
+
+      const errors = fieldErrors(req);
+      if (errors.length > 0) {
+        const error = createError('Validation failed', 400);
+        error.errors = errors;
+        return next(error);
+      }
+
+      req.body = matchedData(req, { locations: ['body'] });
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Validate one record that did not come in a request body, e.g. a CSV row,
+ * with the same rules as validateBody. Returns the sanitized, schema-declared
+ * fields, or the errors for every bad field.
+ */
+export const validateRecord = async (schema: Schema, record: Record<string, any>): Promise<{ data: Record<string, any>; errors: FieldError[] }> => {
+  const req = { body: record };
+  await checkSchema(schema, ['body']).run(req);
+
+  const errors = fieldErrors(req);
+  return { data: errors.length > 0 ? {} : matchedData(req, { locations: ['body'] }), errors };
+};
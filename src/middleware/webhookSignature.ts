@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+import { config } from '../config/env';
+
+// express.json() keeps the exact bytes here (see index.ts) so signatures can be checked
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+export interface WebhookSignatureOptions {
+  provider: string;
+  secret: string;
+  // Setting that holds the secret, for the error logged when it is not set
+  secretName: string;
+  signatureHeader: string;
+  timestampHeader: string;
+  toleranceSeconds?: number;
+}
+
+const DEFAULT_TOLERANCE_SECONDS = config.webhooks.toleranceSeconds;
+
+// HMAC-SHA256 over "<timestamp>.<raw body>", hex encoded
+export const signWebhookPayload = (secret: string, timestamp: string, rawBody: Buffer | string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+
+// Accept seconds or milliseconds since the epoch, or an ISO date
+const parseTimestamp = (value: string): number => {
+  if (/^\d+$/.test(value)) {
+    const numeric = parseInt(value, 10);
+    return numeric > 1e12 ? numeric : numeric * 1000;
+  }
+  return Date.parse(value);
+};
+
+/**
+ * Reject webhook deliveries that are not signed with the provider's shared
+ * secret or whose timestamp is too old (replayed) or too far in the future.
+ * Fails closed when the secret is not configured.
+ */
+export const verifyWebhookSignature = (options: WebhookSignatureOptions) => {
+  const toleranceMs = (options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS) * 1000;
+
+  return (req: RawBodyRequest, res: Response, next: NextFunction) => {
+    const secret = options.secret;
+    if (!secret) {
+      console.error(`${options.secretName} is not set; rejecting ${options.provider} webhook`);
+      return next(createError('Webhook verification is not configured', 503));
+    }
+
+    const signature = (req.get(options.signatureHeader) || '').replace(/^sha256=/, '');
+    const timestamp = req.get(options.timestampHeader) || '';
+    if (!signature || !timestamp) {
+      return next(createError('Missing webhook signature', 401));
+    }
+
+    const sentAt = parseTimestamp(timestamp);
+    if (isNaN(sentAt) || Math.abs(Date.now() - sentAt) > toleranceMs) {
+      return next(createError('Webhook timestamp outside the allowed window', 401));
+    }
+
+    const expected = Buffer.from(signWebhookPayload(secret, timestamp, req.rawBody || ''), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return next(createError('Invalid webhook signature', 401));
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,456 @@
+/**
+ * Request Schemas
+ * express-validator schemas for request bodies, used with validateBody().
+ * Sanitizers coerce values to the string columns declared in ./types.
+ */
+
+import { Meta, ParamSchema, Schema } from 'express-validator';
+import { normalizePhone } from '../utils/phone';
+import { normalizeFurnishing, splitList } from '../utils/listing';
+import {
+  AGENT_TYPES, CONTACT_CHANNELS, FURNISHING_TYPES, KNOWLEDGE_BASE_TYPES, LEAD_STATUSES, PROPERTY_STATUSES, TELEPHONY_PROVIDERS,
+  WEBHOOK_EVENT_STATUSES
+} from './types';
+
+interface FieldOptions {
+  required?: boolean;
+}
+
+interface NumberOptions extends FieldOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  // Extra cross-field check; throw to reject
+  check?: (value: number, meta: Meta) => void;
+}
+
+// Optional fields also accept '' so clients can clear a column
+const isBlank = (value: any) => value === '';
+
+const presence = ({ required }: FieldOptions): ParamSchema => required
+  ? { exists: { options: { values: 'null' }, errorMessage: 'is required', bail: true } }
+  : { optional: { options: { values: 'null' } } };
+
+const text = (max: number, options: FieldOptions = {}): ParamSchema => ({
+  ...presence(options),
+  isString: { errorMessage: 'must be a string', bail: true },
+  trim: true,
+  ...(options.required && { notEmpty: { errorMessage: 'must not be empty' } }),
+  isLength: { options: { max }, errorMessage: `must be at most ${max} characters` }
+});
+
+const toNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const number = (options: NumberOptions = {}): ParamSchema => {
+  const { min = 0, max, integer } = options;
+  return {
+    ...presence(options),
+    custom: {
+      options: (value: any, meta: Meta) => {
+        if (!options.required && isBlank(value)) return true;
+        const parsed = toNumber(value);
+        if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+          throw new Error(integer ? 'must be a whole number' : 'must be a number');
+        }
+        if (parsed < min || (max !== undefined && parsed > max)) {
+          throw new Error(max !== undefined ? `must be between ${min} and ${max}` : `must be at least ${min}`);
+        }
+        options.check?.(parsed, meta);
+        return true;
+      }
+    },
+    customSanitizer: { options: (value: any) => String(value).trim() }
+  };
+};
+
+const oneOf = (
+  values: readonly string[],
+  options: FieldOptions = {},
+  normalize: (value: string) => string = value => value.trim().toLowerCase()
+): ParamSchema => ({
+  ...presence(options),
+  customSanitizer: { options: (value: any) => (typeof value === 'string' ? normalize(value) : value) },
+  custom: {
+    options: (value: any) => {
+      if (!options.required && isBlank(value)) return true;
+      if (!values.includes(value)) {
+        throw new Error(`must be one of: ${values.join(', ')}`);
+      }
+      return true;
+    }
+  }
+});
+
+// Builds a field that must satisfy test() once sanitized
+const pattern = (
+  test: (value: string) => boolean,
+  message: string,
+  options: FieldOptions = {},
+  sanitize: (value: string) => string = value => value.trim()
+): ParamSchema => ({
+  ...presence(options),
+  isString: { errorMessage: 'must be a string', bail: true },
+  customSanitizer: { options: (value: any) => (typeof value === 'string' ? sanitize(value) : value) },
+  custom: {
+    options: (value: string) => {
+      if (!options.required && isBlank(value)) return true;
+      if (!test(value)) throw new Error(message);
+      return true;
+    }
+  }
+});
+
+const phone = (options: FieldOptions = {}) =>
+  pattern(value => /^\d{10,15}$/.test(value), 'must be a valid phone number', options, normalizePhone);
+
+const email = (options: FieldOptions = {}) =>
+  pattern(value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) && value.length <= 254, 'must be a valid email address', options);
+
+const date = (options: FieldOptions = {}) =>
+  pattern(value => /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value)), 'must be an ISO 8601 date', options);
+
+const url = (options: FieldOptions = {}) =>
+  pattern(value => {
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }, 'must be an http(s) URL', options);
+
+// 24-hour "HH:MM"
+const time = (options: FieldOptions = {}) =>
+  pattern(value => /^([01]\d|2[0-3]):[0-5]\d$/.test(value), 'must be a time in HH:MM (24-hour) format', options);
+
+// IANA time zone name, e.g. Asia/Kolkata
+const timezone = (options: FieldOptions = {}) =>
+  pattern(value => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'must be a valid time zone (e.g. Asia/Kolkata)', options);
+
+// Lists are stored as comma-separated strings; accept either form
+const list = (max: number, options: FieldOptions = {}): ParamSchema => ({
+  ...presence(options),
+  customSanitizer: {
+    options: (value: any) => (Array.isArray(value) && value.every(item => typeof item === 'string')
+      ? value.map(item => item.trim()).filter(Boolean).join(', ')
+      : value)
+  },
+  isString: { errorMessage: 'must be a string or a list of strings', bail: true },
+  trim: true,
+  isLength: { options: { max }, errorMessage: `must be at most ${max} characters` }
+});
+
+// Structured data kept as a JSON string column
+const json = (max: number): ParamSchema => ({
+  optional: { options: { values: 'null' } },
+  customSanitizer: { options: (value: any) => (typeof value === 'object' ? JSON.stringify(value) : value) },
+  isString: { errorMessage: 'must be a string or an object', bail: true },
+  isLength: { options: { max }, errorMessage: `must be at most ${max} characters` }
+});
+
+// JSON arrays; their items are checked by "field.*" entries
+const array = (max: number, options: FieldOptions = {}): ParamSchema => ({
+  ...presence(options),
+  isArray: { options: { max }, errorMessage: `must be a list of at most ${max} items` }
+});
+
+const flag = (): ParamSchema => ({
+  optional: { options: { values: 'null' } },
+  customSanitizer: { options: (value: any) => (typeof value === 'boolean' ? String(value) : value) },
+  isIn: { options: [['true', 'false']], errorMessage: 'must be true or false' }
+});
+
+/**
+ * Schema for updates: every field becomes optional, but values that are sent
+ * must still be valid (a required text field cannot be cleared)
+ */
+export const partialSchema = (schema: Schema, omit: string[] = []): Schema =>
+  Object.fromEntries(
+    Object.entries(schema)
+      .filter(([field]) => !omit.includes(field))
+      .map(([field, { exists, ...rest }]) => [
+        field,
+        { optional: { options: { values: 'null' } }, ...rest }
+      ])
+  );
+
+export const propertySchema: Schema = {
+  property_code: text(50),
+  title: text(200, { required: true }),
+  address: text(500),
+  city: text(100),
+  locality: text(200, { required: true }),
+  rent: number({ required: true }),
+  available_from: date(),
+  bedrooms: number({ integer: true, max: 20 }),
+  bathrooms: number({ integer: true, max: 20 }),
+  area_sqft: number(),
+  amenities: list(1000),
+  furnishing: oneOf(FURNISHING_TYPES, {}, normalizeFurnishing),
+  status: oneOf(PROPERTY_STATUSES),
+  owner_id: text(100),
+  owner_name: text(200),
+  owner_phone: phone(),
+  description: text(5000),
+  photos: list(5000)
+};
+
+export const propertyUpdateSchema = partialSchema(propertySchema);
+
+export const tenantSchema: Schema = {
+  name: text(200, { required: true }),
+  phone: phone({ required: true }),
+  whatsapp_number: phone(),
+  email: email(),
+  city: text(100),
+  localities: list(1000),
+  budget_min: number(),
+  budget_max: number({
+    check: (value, { req }) => {
+      const min = toNumber(req.body?.budget_min);
+      if (Number.isFinite(min) && value < min) {
+        throw new Error('must be greater than or equal to budget_min');
+      }
+    }
+  }),
+  move_in_date: date(),
+  bedrooms: number({ integer: true, max: 20 }),
+  amenities: list(1000),
+  preferences: json(5000),
+  source: text(50)
+};
+
+// Consent is changed through /api/compliance/consent only, so every change is audited
+export const tenantUpdateSchema = partialSchema(tenantSchema);
+
+export const leadSchema: Schema = {
+  tenant_id: text(100, { required: true }),
+  property_id: text(100),
+  property_code: text(50),
+  channel: text(50),
+  call_recording_url: url(),
+  transcript: text(100000),
+  nlp_extracted: json(20000),
+  match_score: number({ max: 1 }),
+  owner_notified: flag()
+};
+
+export const leadUpdateSchema: Schema = {
+  ...partialSchema(leadSchema, ['tenant_id']),
+  // Leads are created as 'new'; the status only moves along LEAD_TRANSITIONS afterwards
+  status: oneOf(LEAD_STATUSES),
+  // Why the status changed; kept in the lead's history
+  reason: text(500)
+};
+
+export const leadReleaseSchema: Schema = {
+  reason: text(500)
+};
+
+export const leadReassignSchema: Schema = {
+  owner_user_id: text(100, { required: true }),
+  reason: text(500)
+};
+
+export const registerSchema: Schema = {
+  phone_number: phone({ required: true }),
+  // Code from POST /api/auth/otp/request, proving the number belongs to whoever registers it
+  code: pattern(value => /^\d{4,8}$/.test(value), 'must be a numeric code', { required: true }),
+  password: {
+    exists: { options: { values: 'null' }, errorMessage: 'is required', bail: true },
+    isString: { errorMessage: 'must be a string', bail: true },
+    isLength: { options: { min: 8, max: 128 }, errorMessage: 'must be between 8 and 128 characters' }
+  },
+  name: text(200, { required: true }),
+  email: email(),
+  company_name: text(200)
+};
+
+// Accounts are created as tenants; only an admin makes a user an owner
+export const userRoleSchema: Schema = {
+  user_type: oneOf(['tenant', 'owner'], { required: true })
+};
+
+export const loginSchema: Schema = {
+  phone_number: phone({ required: true }),
+  password: {
+    exists: { options: { values: 'null' }, errorMessage: 'is required', bail: true },
+    isString: { errorMessage: 'must be a string' }
+  }
+};
+
+export const otpRequestSchema: Schema = {
+  phone_number: phone({ required: true })
+};
+
+export const otpVerifySchema: Schema = {
+  phone_number: phone({ required: true }),
+  code: pattern(value => /^\d{4,8}$/.test(value), 'must be a numeric code', { required: true })
+};
+
+export const refreshSchema: Schema = {
+  refresh_token: text(500, { required: true })
+};
+
+export const logoutSchema: Schema = {
+  refresh_token: text(500)
+};
+
+export const agentSchema: Schema = {
+  eleven_agent_id: text(100, { required: true }),
+  name: text(100, { required: true }),
+  tone: text(50),
+  personality: text(2000),
+  agent_type: oneOf(AGENT_TYPES),
+  telephony_provider: oneOf(TELEPHONY_PROVIDERS),
+  from_number: text(100)
+};
+
+export const agentUpdateSchema = partialSchema(agentSchema, ['eleven_agent_id']);
+
+// The agent configuration pushed to ElevenLabs
+const agentConfigFields: Schema = {
+  name: text(100, { required: true }),
+  system_prompt: text(20000, { required: true }),
+  first_message: text(1000),
+  voice_id: text(100),
+  language: pattern(value => /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(value), 'must be a language code such as en or hi'),
+  knowledge_base: array(100),
+  tool_ids: array(100)
+};
+
+const agentConfigItems: Schema = {
+  'knowledge_base.*.id': text(100, { required: true }),
+  'knowledge_base.*.name': text(200, { required: true }),
+  'knowledge_base.*.type': oneOf(KNOWLEDGE_BASE_TYPES, { required: true }),
+  'tool_ids.*': text(100, { required: true })
+};
+
+export const agentConfigCreateSchema: Schema = {
+  ...agentConfigFields,
+  ...agentConfigItems,
+  agent_type: oneOf(AGENT_TYPES),
+  telephony_provider: oneOf(TELEPHONY_PROVIDERS),
+  from_number: text(100)
+};
+
+export const agentConfigUpdateSchema: Schema = {
+  ...partialSchema(agentConfigFields),
+  ...agentConfigItems,
+  // Why it changed, kept with the version
+  note: text(500)
+};
+
+export const agentConfigRollbackSchema: Schema = {
+  version: number({ required: true, integer: true, min: 1 }),
+  note: text(500)
+};
+
+export const phoneNumberSchema: Schema = {
+  number: phone({ required: true }),
+  // Defaults to TELEPHONY_DEFAULT_PROVIDER
+  provider: oneOf(TELEPHONY_PROVIDERS),
+  agent_id: text(100, { required: true }),
+  // What calls to the number are about: one property or one owner's portfolio, not both
+  property_id: text(100),
+  owner_id: text(100),
+  label: text(100)
+};
+
+export const phoneNumberUpdateSchema = partialSchema(phoneNumberSchema, ['number']);
+
+export const webhookReplaySchema: Schema = {
+  from: date({ required: true }),
+  to: date({ required: true }),
+  provider: text(50),
+  status: oneOf(WEBHOOK_EVENT_STATUSES),
+  event_type: text(100)
+};
+
+export const campaignSchema: Schema = {
+  name: text(200, { required: true }),
+  // Defaults to the agent's telephony provider
+  provider: oneOf(TELEPHONY_PROVIDERS),
+  agent_id: text(100, { required: true }),
+  from_number: text(100),
+  // Contacts: an uploaded dataset, or else the tenants matching the segment fields
+  dataset_id: text(100),
+  city: text(100),
+  localities: list(1000),
+  budget_min: number(),
+  budget_max: number({
+    check: (value, { req }) => {
+      const min = toNumber(req.body?.budget_min);
+      if (Number.isFinite(min) && value < min) {
+        throw new Error('must be greater than or equal to budget_min');
+      }
+    }
+  }),
+  bedrooms: number({ integer: true, max: 20 }),
+  calling_start: time(),
+  calling_end: time(),
+  timezone: timezone(),
+  concurrency: number({ integer: true, min: 1, max: 20 }),
+  max_attempts: number({ integer: true, min: 1, max: 5 }),
+  retry_delay_minutes: number({ integer: true, min: 1, max: 1440 })
+};
+
+const contactChannels = (): ParamSchema => ({
+  ...list(100),
+  custom: {
+    options: (value: string) => {
+      const unknown = splitList(value).filter(channel => !(CONTACT_CHANNELS as readonly string[]).includes(channel.toLowerCase()));
+      if (unknown.length > 0) {
+        throw new Error(`must only contain: ${CONTACT_CHANNELS.join(', ')}`);
+      }
+      return true;
+    }
+  }
+});
+
+export const consentGiveSchema: Schema = {
+  // Required for admins; tenants give their own consent
+  tenant_id: text(100),
+  // Channels consented to; all channels when omitted
+  channels: contactChannels(),
+  // Required for admins: where the tenant gave consent, e.g. a signed form's reference or a call ID
+  source: text(200),
+  note: text(500)
+};
+
+export const consentWithdrawSchema: Schema = {
+  // Required for owners and admins; tenants withdraw their own consent
+  tenant_id: text(100),
+  // Channels to withdraw; all channels when omitted
+  channels: contactChannels(),
+  note: text(500)
+};
+
+export const dncAddSchema: Schema = {
+  phone: phone({ required: true }),
+  note: text(500)
+};
+
+export const dncRemoveSchema: Schema = {
+  note: text(500)
+};
+
+export const recordingDeleteSchema: Schema = {
+  // Why it is being deleted, e.g. the tenant's request
+  reason: text(500)
+};
+
+export const conversationSyncSchema: Schema = {
+  // ElevenLabs agent to sync; all configured agents if not given
+  agent_id: text(100)
+};
@@ -0,0 +1,496 @@
+/**
+ * Record Types
+ * Shapes of the records persisted by the storage backends.
+ * Property, tenant and lead columns are strings because they round-trip through CSV.
+ * Request bodies are checked against the matching schemas in ./schemas.
+ */
+
+export const USER_TYPES = ['tenant', 'owner', 'admin'] as const;
+export type UserType = typeof USER_TYPES[number];
+
+export const PROPERTY_STATUSES = ['available', 'rented', 'inactive'] as const;
+export type PropertyStatus = typeof PROPERTY_STATUSES[number];
+
+export const FURNISHING_TYPES = ['unfurnished', 'semi_furnished', 'fully_furnished'] as const;
+export type FurnishingType = typeof FURNISHING_TYPES[number];
+
+export const LEAD_STATUSES = [
+  'new', 'contacted', 'not_reachable', 'interested', 'visit_scheduled',
+  'negotiating', 'closed_won', 'closed_lost'
+] as const;
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export const AGENT_TYPES = ['inbound', 'outbound'] as const;
+export type AgentType = typeof AGENT_TYPES[number];
+
+export const WEBHOOK_EVENT_STATUSES = ['processing', 'processed', 'failed'] as const;
+export type WebhookEventStatus = typeof WEBHOOK_EVENT_STATUSES[number];
+
+export interface Property {
+  property_id: string;
+  property_code: string;
+  title: string;
+  address: string;
+  city: string;
+  locality: string;
+  rent: string;
+  available_from: string;
+  bedrooms: string;
+  bathrooms: string;
+  area_sqft: string;
+  amenities: string;
+  furnishing: string;
+  status: string;
+  owner_id: string;
+  owner_name: string;
+  owner_phone: string;
+  description: string;
+  photos: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Tenant {
+  tenant_id: string;
+  name: string;
+  phone: string;
+  whatsapp_number: string;
+  email: string;
+  city: string;
+  localities: string;
+  budget_min: string;
+  budget_max: string;
+  move_in_date: string;
+  bedrooms: string;
+  amenities: string;
+  preferences: string;
+  source: string;
+  consent_timestamp: string;
+  consent_scope: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// What a caller wanted, by how they ended the call
+export const CALLER_INTENTS = ['rent', 'buy', 'callback', 'not_interested', 'unknown'] as const;
+export type CallerIntent = typeof CALLER_INTENTS[number];
+
+// Requirements read from a call transcript; stored as JSON in leads.nlp_extracted
+export interface TranscriptRequirements {
+  budget_min: number | null;
+  budget_max: number | null;
+  city: string | null;
+  localities: string[];
+  bedrooms: number | null;
+  // YYYY-MM-DD
+  move_in_date: string | null;
+  amenities: string[];
+  furnishing: FurnishingType | null;
+  intent: CallerIntent;
+  extractor: 'rules' | 'llm';
+  extracted_at: string;
+}
+
+export interface Lead {
+  lead_id: string;
+  tenant_id: string;
+  property_id: string;
+  property_code: string;
+  channel: string;
+  call_recording_url: string;
+  transcript: string;
+  nlp_extracted: string;
+  match_score: string;
+  match_breakdown: string;
+  owner_notified: string;
+  owner_user_id: string;
+  claimed_at: string;
+  claim_expires_at: string;
+  // For inbound calls: the number the tenant dialled, and the owner whose line it is
+  dialled_number: string;
+  routed_owner_id: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeadHistoryEntry {
+  id: string;
+  lead_id: string;
+  action: 'created' | 'status_changed' | 'claimed' | 'released' | 'claim_expired' | 'reassigned';
+  from_status: string | null;
+  to_status: string | null;
+  changed_by: string;
+  changed_by_type: 'user' | 'system' | 'webhook';
+  reason: string | null;
+  created_at: string;
+}
+
+export interface WebhookEvent {
+  id: string;
+  provider: string;
+  delivery_id: string;
+  event_type: string;
+  call_id: string | null;
+  payload: any;
+  // Body exactly as received, before JSON parsing
+  raw_payload: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  result: any;
+  error: string | null;
+  received_at: string;
+  processed_at: string | null;
+  updated_at: string;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  password: string | null;
+  name: string;
+  company_name: string | null;
+  phone: string | null;
+  user_type: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Session {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  expires_at: string;
+  last_used_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  revoked_at: string | null;
+  revoked_reason?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OtpCode {
+  phone: string;
+  code_hash: string | null;
+  expires_at: string;
+  attempts: number;
+  last_sent_at: string;
+  send_history: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Telephony providers calls can be placed through; 'fake' is a local provider for tests
+export const TELEPHONY_PROVIDERS = ['ringg', 'elevenlabs', 'fake'] as const;
+export type TelephonyProviderName = typeof TELEPHONY_PROVIDERS[number];
+
+export interface Agent {
+  id: string;
+  builder_id: string;
+  eleven_agent_id: string;
+  name: string;
+  tone: string;
+  personality: string | null;
+  agent_type: string;
+  // Provider and number this agent dials through; unset uses the default provider
+  telephony_provider: TelephonyProviderName | null;
+  from_number: string | null;
+  // True when the builder created the agent through POST /api/agents; only then may they change its configuration
+  config_managed?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export const KNOWLEDGE_BASE_TYPES = ['file', 'url', 'text'] as const;
+export type KnowledgeBaseType = typeof KNOWLEDGE_BASE_TYPES[number];
+
+// A document in the ElevenLabs knowledge base
+export interface KnowledgeBaseDocument {
+  id: string;
+  name: string;
+  type: KnowledgeBaseType;
+}
+
+// The parts of an ElevenLabs agent we manage, pushed whole on every change
+export interface AgentConfiguration {
+  name: string;
+  system_prompt: string;
+  first_message: string;
+  voice_id: string;
+  // Language code, e.g. en or hi
+  language: string;
+  knowledge_base: KnowledgeBaseDocument[];
+  // ElevenLabs tools the agent may call
+  tool_ids: string[];
+}
+
+// How a configuration version came about; 'imported' records edits made in the ElevenLabs dashboard
+export const AGENT_CONFIG_SOURCES = ['created', 'updated', 'imported', 'rollback'] as const;
+export type AgentConfigSource = typeof AGENT_CONFIG_SOURCES[number];
+
+// One version of an agent's configuration, numbered from 1 per agent
+export interface AgentConfigVersion {
+  id: string;
+  // ElevenLabs agent ID
+  agent_id: string;
+  version: number;
+  config: AgentConfiguration;
+  source: AgentConfigSource;
+  // For rollbacks, the version that was restored
+  restored_version: number | null;
+  note: string;
+  // User who made the change; null for imported versions
+  created_by: string | null;
+  created_at: string;
+}
+
+// One of our phone numbers: the agent that answers it and what calls to it
+// are about. A number routes to one property, to an owner's whole portfolio,
+// or to neither for a general line.
+export interface PhoneNumberRoute {
+  id: string;
+  // Digits only, as normalizePhone gives them
+  number: string;
+  provider: TelephonyProviderName;
+  agent_id: string;
+  property_id: string | null;
+  owner_id: string | null;
+  label: string;
+  builder_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const CALL_DIRECTIONS = ['inbound', 'outbound'] as const;
+export type CallDirection = typeof CALL_DIRECTIONS[number];
+
+// How a call ended; 'pending' until the provider reports an end
+export const CALL_OUTCOMES = ['pending', 'completed', 'no_answer', 'busy', 'failed'] as const;
+export type CallOutcome = typeof CALL_OUTCOMES[number];
+
+export const TRANSCRIPT_SPEAKERS = ['agent', 'caller'] as const;
+export type TranscriptSpeaker = typeof TRANSCRIPT_SPEAKERS[number];
+
+// One speaker turn of a call transcript
+export interface TranscriptTurn {
+  speaker: TranscriptSpeaker;
+  text: string;
+  // Seconds into the call, when the provider reports them
+  start_seconds: number | null;
+  end_seconds: number | null;
+  // Speech recognition confidence from 0 to 1, when reported
+  confidence: number | null;
+}
+
+// A call's transcript as ordered speaker turns
+export interface CallTranscript {
+  call_id: string;
+  turns: TranscriptTurn[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Call {
+  id: string;
+  // Telephony provider that placed or received the call, and its ID for it
+  provider: string;
+  provider_call_id: string;
+  direction: CallDirection;
+  from_number: string;
+  to_number: string;
+  agent_id: string;
+  tenant_id: string;
+  lead_id: string;
+  // Status as last reported by the provider
+  status: string;
+  outcome: CallOutcome;
+  started_at: string;
+  answered_at: string | null;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  // Our playback URL once the recording is archived, else the provider's
+  recording_url: string;
+  // The archived recording, once one has been stored
+  recording_id: string | null;
+  // The stored transcript's turns as "speaker: text" lines
+  transcript: string;
+  // Extra details the provider reports, such as its summary and why the call ended
+  metadata: Record<string, any> | null;
+  initiated_by: string | null;
+  builder_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const CALL_RECORDING_STATUSES = ['stored', 'failed', 'deleted'] as const;
+export type CallRecordingStatus = typeof CALL_RECORDING_STATUSES[number];
+
+// A call recording copied from the provider into our recording storage
+export interface CallRecording {
+  id: string;
+  call_id: string;
+  provider: string;
+  // Where it was downloaded from; provider links expire
+  source_url: string;
+  status: CallRecordingStatus;
+  // Recording storage adapter and the key the audio is stored under
+  storage: string;
+  storage_key: string;
+  content_type: string;
+  size_bytes: number;
+  attempts: number;
+  error: string | null;
+  stored_at: string | null;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  deletion_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// How far the conversation sync has got for one ElevenLabs agent
+export interface ConversationSyncState {
+  agent_id: string;
+  // Conversations that started before this (unix seconds) are stored and will not change
+  synced_until_unix: number;
+  conversations_synced: number;
+  last_synced_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const CAMPAIGN_STATUSES = ['draft', 'running', 'paused', 'completed', 'cancelled'] as const;
+export type CampaignStatus = typeof CAMPAIGN_STATUSES[number];
+
+// Tenants a campaign calls; every set field must match
+export interface CampaignSegment {
+  city?: string;
+  localities?: string;
+  budget_min?: number;
+  budget_max?: number;
+  bedrooms?: number;
+}
+
+export interface Campaign {
+  id: string;
+  builder_id: string;
+  name: string;
+  provider: TelephonyProviderName;
+  agent_id: string;
+  // Ringg caller ID, or the ElevenLabs phone number ID to dial from
+  from_number: string;
+  // Contacts come from a tenant segment or an uploaded dataset
+  segment: CampaignSegment | null;
+  dataset_id: string | null;
+  // Local calling window ("HH:MM") in the campaign's time zone
+  calling_start: string;
+  calling_end: string;
+  timezone: string;
+  // Calls in progress at once
+  concurrency: number;
+  // Attempts per contact, including the first
+  max_attempts: number;
+  retry_delay_minutes: number;
+  status: CampaignStatus;
+  created_by: string;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const CAMPAIGN_CONTACT_STATUSES = ['pending', 'in_call', 'completed', 'failed', 'skipped', 'cancelled'] as const;
+export type CampaignContactStatus = typeof CAMPAIGN_CONTACT_STATUSES[number];
+
+// One number to call in a campaign; doubles as its job in the dialing queue
+export interface CampaignContact {
+  id: string;
+  campaign_id: string;
+  tenant_id: string;
+  name: string;
+  phone: string;
+  status: CampaignContactStatus;
+  attempts: number;
+  // Earliest time of the next attempt
+  next_attempt_at: string;
+  last_call_id: string;
+  outcome: CallOutcome | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Channels a tenant can consent to being contacted on
+export const CONTACT_CHANNELS = ['call', 'sms', 'whatsapp', 'email'] as const;
+export type ContactChannel = typeof CONTACT_CHANNELS[number];
+
+export const DNC_REASONS = ['opt_out', 'transcript', 'manual'] as const;
+export type DncReason = typeof DNC_REASONS[number];
+
+// Do-not-call registry entry; removal keeps the entry for the record
+export interface DncEntry {
+  id: string;
+  // E.164 form, so "+91 98765 43210" and "09876543210" are the same entry
+  phone: string;
+  reason: DncReason;
+  // Where the entry came from, e.g. the call whose transcript flagged it
+  source: string | null;
+  note: string | null;
+  added_by: string;
+  created_at: string;
+  removed_at: string | null;
+  removed_by: string | null;
+}
+
+export interface ComplianceAuditEntry {
+  id: string;
+  action: 'contact_allowed' | 'contact_refused' | 'consent_given' | 'consent_withdrawn' | 'dnc_added' | 'dnc_removed' | 'recording_deleted';
+  phone: string;
+  tenant_id: string | null;
+  channel: ContactChannel | null;
+  reason: string | null;
+  // What triggered the decision, e.g. "outbound_call" or a campaign ID
+  context: string | null;
+  actor_id: string;
+  actor_type: 'user' | 'system' | 'webhook';
+  created_at: string;
+}
+
+export interface BrandGuide {
+  id: string;
+  builder_id: string;
+  tone: string;
+  description: string | null;
+  keywords: string[] | null;
+  script_examples: string | null;
+  logo_url: string | null;
+  voice_note_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Integration {
+  id: string;
+  builder_id: string;
+  tool_type: string;
+  access_token: string;
+  refresh_token: string | null;
+  status: string;
+  last_sync: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Dataset {
+  id: string;
+  builder_id: string;
+  file_url: string;
+  file_name: string;
+  data_type: string;
+  row_count: number;
+  agent_id: string | null;
+  uploaded_at: string;
+}
@@ -1,11 +1,35 @@
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { fileStorage } from '../config/storage';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
 import { elevenLabsService } from '../services/elevenlabs';
 import { createError } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import {
+  agentSchema, agentUpdateSchema, agentConfigCreateSchema, agentConfigUpdateSchema, agentConfigRollbackSchema
+} from '../models/schemas';
+import { Agent, AgentConfiguration } from '../models/types';
+import { agentConfigService } from '../services/agentConfig';
 
 export const agentsRouter = Router();
 agentsRouter.use(authenticate);
+agentsRouter.use(requireRole('owner'));
+
+/**
+ * The builder's own agent record, for the configuration routes. Only agents
+ * the builder created through POST /api/agents qualify: an agent added with
+ * /create may also be another builder's, and its configuration is not ours to change.
+ */
+const loadAgent = async (req: AuthRequest): Promise<Agent> => {
+  const agents = await repository.agents.listByBuilder(req.user!.builderId);
+  const agent = agents.find(a => a.eleven_agent_id === req.params.agentId);
+  if (!agent) {
+    throw createError('Agent not found', 404);
+  }
+  if (!agent.config_managed) {
+    throw createError('This agent was not created here, so its configuration cannot be managed here', 403);
+  }
+  return agent;
+};
 
 // Get all agents (sync with ElevenLabs)
 agentsRouter.get('/', async (req: AuthRequest, res, next) => {
@@ -16,7 +40,7 @@ agentsRouter.get('/', async (req: AuthRequest, res, next) => {
     const elevenLabsAgents = await elevenLabsService.getAgents();
 
     // Get local agent records
-    const localAgents = fileStorage.getAgents(builderId);
+    const localAgents = await repository.agents.listByBuilder(builderId);
 
     // Merge ElevenLabs data with local customizations
     const agents = elevenLabsAgents.map((elevenAgent) => {
@@ -34,7 +58,9 @@ agentsRouter.get('/', async (req: AuthRequest, res, next) => {
         ...(localAgent && {
           custom_name: localAgent.name,
           tone: localAgent.tone,
-          personality: localAgent.personality
+          personality: localAgent.personality,
+          telephony_provider: localAgent.telephony_provider || null,
+          from_number: localAgent.from_number || null
         })
       };
       
@@ -63,7 +89,7 @@ agentsRouter.get('/:agentId', async (req: AuthRequest, res, next) => {
     const agent = await elevenLabsService.getAgent(agentId);
 
     // Get local customization
-    const localAgents = fileStorage.getAgents(builderId);
+    const localAgents = await repository.agents.listByBuilder(builderId);
     const localAgent = localAgents.find(
         (a: any) => a.eleven_agent_id === agentId
       );
@@ -75,7 +101,9 @@ agentsRouter.get('/:agentId', async (req: AuthRequest, res, next) => {
         ...(localAgent && {
           custom_name: localAgent.name,
           tone: localAgent.tone,
-          personality: localAgent.personality
+          personality: localAgent.personality,
+          telephony_provider: localAgent.telephony_provider || null,
+          from_number: localAgent.from_number || null
         })
       }
     });
@@ -85,31 +113,30 @@ agentsRouter.get('/:agentId', async (req: AuthRequest, res, next) => {
 });
 
 // Create agent (customize existing ElevenLabs agent)
-agentsRouter.post('/create', async (req: AuthRequest, res, next) => {
+agentsRouter.post('/create', validateBody(agentSchema), async (req: AuthRequest, res, next) => {
   try {
-    const { eleven_agent_id, name, tone, personality, agent_type } = req.body;
+    const { eleven_agent_id, name, tone, personality, agent_type, telephony_provider, from_number } = req.body;
     const builderId = req.user!.builderId;
 
-    if (!eleven_agent_id || !name) {
-      throw createError('eleven_agent_id and name are required', 400);
-    }
-
-    // Validate agent_type
-    if (agent_type && !['inbound', 'outbound'].includes(agent_type)) {
-      throw createError('agent_type must be either "inbound" or "outbound"', 400);
+    // An agent belongs to the first builder who adds it
+    const holders = (await repository.agents.listAll()).filter(a => a.eleven_agent_id === eleven_agent_id);
+    if (holders.some(a => a.builder_id !== builderId)) {
+      throw createError('This agent has already been added by another builder', 409);
     }
 
     // Verify agent exists in ElevenLabs
     await elevenLabsService.getAgent(eleven_agent_id);
 
     // Store customization in local storage
-    const agent = fileStorage.createAgent({
+    const agent = await repository.agents.create({
       builder_id: builderId,
       eleven_agent_id,
       name,
       tone: tone || 'friendly',
       personality: personality || null,
-      agent_type: agent_type || 'outbound' // Default to outbound
+      agent_type: agent_type || 'outbound', // Default to outbound
+      telephony_provider: telephony_provider || null,
+      from_number: from_number || null
     });
 
     res.status(201).json({ status: 'success', agent });
@@ -118,25 +145,99 @@ agentsRouter.post('/create', async (req: AuthRequest, res, next) => {
   }
 });
 
+// Create a new ElevenLabs agent from a full configuration (saved as version 1)
+agentsRouter.post('/', validateBody(agentConfigCreateSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { agent_type, telephony_provider, from_number, ...body } = req.body;
+    const config: AgentConfiguration = {
+      name: body.name,
+      system_prompt: body.system_prompt,
+      first_message: body.first_message || '',
+      voice_id: body.voice_id || '',
+      language: body.language || 'en',
+      knowledge_base: body.knowledge_base || [],
+      tool_ids: body.tool_ids || []
+    };
+
+    const { agent, version } = await agentConfigService.create(config, req.user!.builderId, req.user!.id, {
+      agent_type: agent_type || 'outbound',
+      telephony_provider: telephony_provider || null,
+      from_number: from_number || null
+    });
+
+    res.status(201).json({ status: 'success', agent, version });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The agent's latest configuration version and what ElevenLabs has now
+agentsRouter.get('/:agentId/config', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await loadAgent(req);
+    const { latest, live, in_sync } = await agentConfigService.state(agent.eleven_agent_id);
+
+    res.json({ status: 'success', version: latest, live, in_sync });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change the agent's configuration and push it to ElevenLabs; fields left out are kept
+agentsRouter.put('/:agentId/config', validateBody(agentConfigUpdateSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await loadAgent(req);
+    const { note, ...changes } = req.body;
+
+    const version = await agentConfigService.update(agent.eleven_agent_id, changes, req.user!.id, note || '');
+
+    res.json({ status: 'success', version });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Configuration history, newest first
+agentsRouter.get('/:agentId/config/versions', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await loadAgent(req);
+    const versions = await repository.agentConfigVersions.listByAgent(agent.eleven_agent_id);
+
+    res.json({ status: 'success', versions, count: versions.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Push an earlier configuration version again
+agentsRouter.post('/:agentId/config/rollback', validateBody(agentConfigRollbackSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await loadAgent(req);
+
+    const version = await agentConfigService.rollback(agent.eleven_agent_id, Number(req.body.version), req.user!.id, req.body.note || '');
+
+    res.json({ status: 'success', version });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update agent customization
-agentsRouter.patch('/:agentId', async (req: AuthRequest, res, next) => {
+agentsRouter.patch('/:agentId', validateBody(agentUpdateSchema), async (req: AuthRequest, res, next) => {
   try {
     const { agentId } = req.params;
-    const { name, tone, personality, agent_type } = req.body;
+    const { name, tone, personality, agent_type, telephony_provider, from_number } = req.body;
     const builderId = req.user!.builderId;
 
-    // Validate agent_type if provided
-    if (agent_type && !['inbound', 'outbound'].includes(agent_type)) {
-      throw createError('agent_type must be either "inbound" or "outbound"', 400);
-    }
-
     const updates: any = {};
     if (name) updates.name = name;
     if (tone) updates.tone = tone;
     if (personality !== undefined) updates.personality = personality;
     if (agent_type) updates.agent_type = agent_type;
+    if (telephony_provider !== undefined) updates.telephony_provider = telephony_provider;
+    if (from_number !== undefined) updates.from_number = from_number;
 
-    const agent = fileStorage.updateAgent(agentId, builderId, updates);
+    const agent = await repository.agents.update(agentId, builderId, updates);
     if (!agent) {
       throw createError('Agent not found', 404);
     }
@@ -155,7 +256,7 @@ agentsRouter.delete('/:agentId', async (req: AuthRequest, res, next) => {
     const builderId = req.user!.builderId;
 
     // Delete from local storage
-    fileStorage.deleteAgent(agentId, builderId);
+    await repository.agents.delete(agentId, builderId);
 
     // Optionally delete from ElevenLabs
     if (deleteFromElevenLabs === 'true') {
@@ -1,194 +1,270 @@
-import { Router } from 'express';
-import { fileStorage } from '../config/storage';
-import { csvStorage } from '../config/csvStorage';
+import { Router, Request } from 'express';
+import { repository } from '../config/repository';
 import { createError } from '../middleware/errorHandler';
-import jwt from 'jsonwebtoken';
-import bcrypt from 'bcryptjs';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import {
+  registerSchema, loginSchema, otpRequestSchema, otpVerifySchema, refreshSchema, logoutSchema, userRoleSchema
+} from '../models/schemas';
+import { otpService } from '../services/otp';
+import { sessionService, TokenPair } from '../services/session';
+import { normalizePhone } from '../utils/phone';
 
 export const authRouter = Router();
 
-// Register builder
-authRouter.post('/register', async (req, res, next) => {
-  try {
-    const { email, password, name, company_name, phone_number, user_type } = req.body;
+const sessionMeta = (req: Request) => ({
+  user_agent: req.get('user-agent'),
+  ip: req.ip
+});
 
-    if (!phone_number || !password || !name) {
-      throw createError('Phone number, password, and name are required', 400);
-    }
+// Token fields returned by every endpoint that logs a user in
+const toTokenResponse = (tokens: TokenPair) => ({
+  token: tokens.access_token,
+  refresh_token: tokens.refresh_token,
+  expires_in: tokens.expires_in
+});
+
+const toProfile = (user: any) => ({
+  id: user.id,
+  email: user.email,
+  phone: user.phone,
+  name: user.name,
+  company_name: user.company_name,
+  user_type: user.user_type || 'tenant'
+});
+
+// Register with a password; the phone number must be verified with a one-time code first
+authRouter.post('/register', validateBody(registerSchema), async (req, res, next) => {
+  try {
+    const { email, password, name, company_name, phone_number, code } = req.body;
 
     // Check if user already exists by phone
-    const existingUser = fileStorage.getUsers().find((u: any) => u.phone === phone_number);
+    const existingUser = await repository.users.getByPhone(phone_number);
     if (existingUser) {
       throw createError('User with this phone number already exists', 400);
     }
 
+    // Tenant records are matched to accounts by phone, so nobody may claim a number they do not hold
+    await otpService.verifyCode(phone_number, code);
+
     // Create user
-    const user = await fileStorage.createUser({
+    const user = await repository.users.create({
       email: email || phone_number + '@homemates.com',
       password,
       name,
       company_name,
       phone: phone_number,
-      user_type: user_type || 'tenant'
+      // New accounts are always tenants; an admin grants owner access through PUT /users/:userId/role
+      user_type: 'tenant'
     });
 
-    // Generate JWT
-    const token = jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-        phone: phone_number,
-        builderId: user.id,
-        user_type: user_type || 'tenant'
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    const tokens = await sessionService.createSession(user, sessionMeta(req));
 
     res.status(201).json({
       status: 'success',
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        phone: phone_number,
-        name: user.name,
-        company_name: user.company_name,
-        user_type: user_type || 'tenant'
-      }
+      ...toTokenResponse(tokens),
+      user: toProfile(user)
     });
   } catch (error) {
     next(error);
   }
 });
 
-// Login with mobile number
-authRouter.post('/login', async (req, res, next) => {
+// Login with mobile number and password (only for accounts that have set a password)
+authRouter.post('/login', validateBody(loginSchema), async (req, res, next) => {
   try {
-    const { phone_number, password, user_type } = req.body;
+    const { phone_number, password } = req.body;
 
-    if (!phone_number) {
-      throw createError('Phone number is required', 400);
+    const user = await repository.users.getByPhone(phone_number);
+    if (!user || !user.password) {
+      throw createError('Invalid credentials', 401);
     }
 
-    // Normalize phone number (remove spaces, +, -, parentheses, and leading 0)
-    let normalizedPhone = phone_number.replace(/[\s\+\-\(\)]/g, '');
-    // Remove leading 0 if present (e.g., 07095288950 -> 7095288950)
-    if (normalizedPhone.startsWith('0')) {
-      normalizedPhone = normalizedPhone.substring(1);
+    const isValid = await repository.users.verifyPassword(password, user.password);
+    if (!isValid) {
+      throw createError('Invalid credentials', 401);
     }
-    
-    // Default password is 1234
-    const loginPassword = password || '1234';
-    const loginUserType = user_type || 'tenant';
-    
-    // Also try with original phone number for matching
-    const originalPhone = phone_number.replace(/[\s\+\-\(\)]/g, '');
-
-    // Try to find user by phone number
-    let user = fileStorage.getUsers().find((u: any) => {
-      let userPhone = (u.phone || u.email || '').replace(/[\s\+\-\(\)]/g, '');
-      // Remove leading 0 if present
-      if (userPhone.startsWith('0')) {
-        userPhone = userPhone.substring(1);
-      }
-      return userPhone === normalizedPhone || userPhone === originalPhone || userPhone === phone_number;
+
+    const tokens = await sessionService.createSession(user, sessionMeta(req));
+
+    res.json({
+      status: 'success',
+      ...toTokenResponse(tokens),
+      user: toProfile(user)
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Step 1 of phone login: send a one-time code
+authRouter.post('/otp/request', validateBody(otpRequestSchema), async (req, res, next) => {
+  try {
+    const { phone_number } = req.body;
+
+    const { expires_in, resend_after } = await otpService.requestCode(phone_number);
+
+    res.json({
+      status: 'success',
+      message: 'Verification code sent',
+      expires_in,
+      resend_after
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Step 2 of phone login: verify the code and issue a token, creating the account on first login
+authRouter.post('/otp/verify', validateBody(otpVerifySchema), async (req, res, next) => {
+  try {
+    const { phone_number, code } = req.body;
+
+    await otpService.verifyCode(phone_number, code);
+
+    const normalizedPhone = normalizePhone(phone_number);
+    let user = await repository.users.getByPhone(normalizedPhone);
+    let isNewUser = false;
 
-    // If user doesn't exist, create one with default password
     if (!user) {
-      // Check if it's a tenant or owner
-      if (loginUserType === 'tenant') {
-        // Check if tenant exists in CSV - try both normalized and original phone
-        let tenant = await csvStorage.getTenantByPhone(normalizedPhone);
-        if (!tenant) {
-          tenant = await csvStorage.getTenantByPhone(originalPhone);
-        }
-        if (!tenant) {
-          tenant = await csvStorage.getTenantByPhone(phone_number);
-        }
-        if (tenant) {
-          // Create user from tenant
-          user = await fileStorage.createUser({
-            email: normalizedPhone + '@homemates.com',
-            password: loginPassword,
-            name: tenant.name || 'Tenant',
-            phone: normalizedPhone,
-            user_type: 'tenant'
-          });
-        } else {
-          // Create new tenant user
-          user = await fileStorage.createUser({
-            email: normalizedPhone + '@homemates.com',
-            password: loginPassword,
-            name: 'Tenant',
-            phone: normalizedPhone,
-            user_type: 'tenant'
-          });
-        }
-      } else {
-        // Create owner user
-        user = await fileStorage.createUser({
-          email: normalizedPhone + '@homemates.com',
-          password: loginPassword,
-          name: 'Owner',
-          phone: normalizedPhone,
-          user_type: 'owner'
-        });
-      }
+      // Reuse the tenant's name if they are already in tenants.csv
+      const tenant = await repository.tenants.getByPhone(normalizedPhone);
+
+      user = await repository.users.create({
+        email: normalizedPhone + '@homemates.com',
+        name: tenant?.name || 'Tenant',
+        phone: normalizedPhone,
+        // Always a tenant, as for /register
+        user_type: 'tenant'
+      });
+      isNewUser = true;
     }
 
-    // Verify password (default is 1234)
-    const defaultPassword = '1234';
-    let isValid = false;
-
-    if (user.password) {
-      // User has a password, verify it
-      try {
-        isValid = await fileStorage.verifyPassword(loginPassword, user.password);
-      } catch (e) {
-        // If password verification fails, check if it's the default password
-        isValid = loginPassword === defaultPassword;
+    const tokens = await sessionService.createSession(user, sessionMeta(req));
+
+    res.status(isNewUser ? 201 : 200).json({
+      status: 'success',
+      ...toTokenResponse(tokens),
+      user: toProfile(user),
+      is_new_user: isNewUser
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Exchange a refresh token for a new access/refresh token pair
+authRouter.post('/refresh', validateBody(refreshSchema), async (req, res, next) => {
+  try {
+    const { refresh_token } = req.body;
+
+    const tokens = await sessionService.refresh(refresh_token, sessionMeta(req));
+
+    res.json({
+      status: 'success',
+      ...toTokenResponse(tokens)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Log out the current session (or the session owning the given refresh token)
+authRouter.post('/logout', authenticate, validateBody(logoutSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { refresh_token } = req.body;
+    let sessionId = req.user!.sessionId;
+
+    if (refresh_token) {
+      const refreshSessionId = sessionService.getSessionIdFromRefreshToken(refresh_token);
+      const session = refreshSessionId ? await repository.sessions.getById(refreshSessionId) : null;
+      if (!session || session.user_id !== req.user!.id) {
+        throw createError('Invalid refresh token', 400);
       }
-    } else {
-      // No password set, check if it's the default password
-      isValid = loginPassword === defaultPassword;
+      sessionId = session.id;
     }
 
-    // Also allow default password 1234 for any user
-    if (!isValid && loginPassword === defaultPassword) {
-      isValid = true;
+    await sessionService.revokeSession(sessionId, 'logout');
+
+    res.json({ status: 'success', message: 'Logged out' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Log out every device of the current user
+authRouter.post('/logout-all', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const revoked = await sessionService.revokeAllSessions(req.user!.id, 'logout_all');
+
+    res.json({ status: 'success', message: 'Logged out of all devices', revoked });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Current user's profile
+authRouter.get('/me', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const user = await repository.users.getById(req.user!.id);
+    if (!user) {
+      throw createError('User not found', 404);
     }
 
-    if (!isValid) {
-      throw createError('Invalid credentials', 401);
+    res.json({ status: 'success', user: toProfile(user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List the current user's active sessions
+authRouter.get('/sessions', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const activeSessions = await sessionService.listActiveSessions(req.user!.id);
+    const sessions = activeSessions.map(session => ({
+      ...session,
+      current: session.id === req.user!.sessionId
+    }));
+
+    res.json({ status: 'success', sessions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Kill one of the current user's sessions (e.g. a shared site-office device)
+authRouter.delete('/sessions/:sessionId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await repository.sessions.getById(sessionId);
+
+    if (!session || session.user_id !== req.user!.id) {
+      throw createError('Session not found', 404);
     }
 
-    // Generate JWT
-    const token = jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-        phone: user.phone || normalizedPhone,
-        builderId: user.id,
-        user_type: user.user_type || loginUserType
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    await sessionService.revokeSession(sessionId, 'revoked_by_user');
 
-    res.json({
-      status: 'success',
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        phone: user.phone || normalizedPhone,
-        name: user.name,
-        company_name: user.company_name,
-        user_type: user.user_type || loginUserType
-      }
-    });
+    res.json({ status: 'success', message: 'Session revoked' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Make a user an owner, or a tenant again (admin only); their sessions end so the new role applies at next login
+authRouter.put('/users/:userId/role', authenticate, requireRole('admin'), validateBody(userRoleSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const user = await repository.users.getById(req.params.userId);
+    if (!user) {
+      throw createError('User not found', 404);
+    }
+    if (user.user_type === 'admin') {
+      throw createError('Admin accounts are managed manually', 400);
+    }
+
+    const updated = await repository.users.update(user.id, { user_type: req.body.user_type });
+    await sessionService.revokeAllSessions(user.id, 'role_changed');
+
+    res.json({ status: 'success', user: toProfile(updated) });
   } catch (error) {
     next(error);
   }
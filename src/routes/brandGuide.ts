@@ -1,6 +1,7 @@
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { fileStorage } from '../config/storage';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
+import { config } from '../config/env';
 import { createError } from '../middleware/errorHandler';
 import multer from 'multer';
 import path from 'path';
@@ -8,10 +9,11 @@ import fs from 'fs';
 
 export const brandGuideRouter = Router();
 brandGuideRouter.use(authenticate);
+brandGuideRouter.use(requireRole('owner'));
 
 // Configure multer for file uploads
 const upload = multer({
-  dest: 'uploads/brand-guides/',
+  dest: path.join(config.storage.uploadsDir, 'brand-guides'),
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
   fileFilter: (req, file, cb) => {
     const allowedTypes = /jpeg|jpg|png|mp3|wav|m4a/;
@@ -31,7 +33,7 @@ brandGuideRouter.get('/', async (req: AuthRequest, res, next) => {
   try {
     const builderId = req.user!.builderId;
 
-    const brandGuide = fileStorage.getBrandGuide(builderId);
+    const brandGuide = await repository.brandGuides.getByBuilder(builderId);
 
     res.json({ status: 'success', brand_guide: brandGuide || null });
   } catch (error) {
@@ -53,7 +55,7 @@ brandGuideRouter.post('/', upload.fields([
     const voiceNoteFile = files?.voice_note?.[0];
 
     // Store files locally
-    const uploadsDir = path.join(process.cwd(), 'uploads', 'brand-assets', builderId);
+    const uploadsDir = path.join(config.storage.uploadsDir, 'brand-assets', builderId);
     if (!fs.existsSync(uploadsDir)) {
       fs.mkdirSync(uploadsDir, { recursive: true });
     }
@@ -89,7 +91,7 @@ brandGuideRouter.post('/', upload.fields([
     }
 
     // Upsert brand guide
-    const brandGuide = fileStorage.upsertBrandGuide({
+    const brandGuide = await repository.brandGuides.upsert({
       builder_id: builderId,
       tone: tone || 'friendly',
       description: description || null,
@@ -1,47 +1,63 @@
 /**
  * Calls Routes
- * Handles call logs and lead management
+ * Handles call records and outbound calls
  */
 
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { csvStorage } from '../config/csvStorage';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
 import { createError } from '../middleware/errorHandler';
-import { initiateOutboundCall } from '../services/ringg';
+import { telephonyService } from '../services/telephony';
+import { complianceService } from '../services/compliance';
+import { callService } from '../services/calls';
+import { recordingService, recordingExpiry } from '../services/recordings';
+import { conversationSyncService } from '../services/conversationSync';
+import { getRecordingStore } from '../config/recordingStorage';
+import { validateBody } from '../middleware/validate';
+import { conversationSyncSchema, recordingDeleteSchema } from '../models/schemas';
+import { toE164 } from '../utils/phone';
+import { redactTurns, withRedactedTranscript } from '../utils/transcript';
+import { Call, CallDirection, CallOutcome } from '../models/types';
 
 export const callsRouter = Router();
 callsRouter.use(authenticate);
+callsRouter.use(requireRole('owner'));
 
-// Get call logs (from leads)
+const SEARCH_LIMIT = 50;
+
+// Owners see transcripts with phone numbers, emails and IDs redacted; admins see them as recorded
+const redacts = (req: AuthRequest) => req.user!.user_type !== 'admin';
+const visibleCall = (req: AuthRequest, call: Call) => redacts(req) ? withRedactedTranscript(call) : call;
+
+// Owners see their builder's calls; admins see all
+const builderScope = (req: AuthRequest) => req.user!.user_type === 'admin' ? undefined : req.user!.builderId;
+
+const loadCall = async (req: AuthRequest): Promise<Call> => {
+  const call = await repository.calls.getById(req.params.callId);
+  const builderId = builderScope(req);
+  if (!call || (builderId !== undefined && call.builder_id !== builderId)) {
+    throw createError('Call not found', 404);
+  }
+  return call;
+};
+
+// Get call logs, newest first
 callsRouter.get('/', async (req: AuthRequest, res, next) => {
   try {
-    const { tenant_id, property_id, status } = req.query;
-    
-    const filters: any = {};
-    if (tenant_id) filters.tenant_id = tenant_id as string;
-    if (property_id) filters.property_id = property_id as string;
-    if (status) filters.status = status as string;
+    const { tenant_id, lead_id, provider, direction, outcome } = req.query;
+
+    const calls = await repository.calls.list({
+      builder_id: builderScope(req),
+      tenant_id: tenant_id as string | undefined,
+      lead_id: lead_id as string | undefined,
+      provider: provider as string | undefined,
+      direction: direction as CallDirection | undefined,
+      outcome: outcome as CallOutcome | undefined
+    });
 
-    const leads = await csvStorage.getLeads(filters);
-    
-    // Convert leads to call format
-    const calls = leads.map(lead => ({
-      id: lead.lead_id,
-      conversation_id: lead.lead_id,
-      tenant_id: lead.tenant_id,
-      property_id: lead.property_id,
-      channel: lead.channel || 'call',
-      transcript: lead.transcript,
-      recording_url: lead.call_recording_url,
-      status: lead.status,
-      match_score: lead.match_score,
-      created_at: lead.created_at,
-      updated_at: lead.updated_at
-    }));
-    
     res.json({ 
       status: 'success', 
-      calls,
+      calls: calls.map(call => visibleCall(req, call)),
       total: calls.length 
     });
   } catch (error) {
@@ -49,41 +65,94 @@ callsRouter.get('/', async (req: AuthRequest, res, next) => {
   }
 });
 
+// Numbers a telephony provider can call from (the default provider if none is given)
+callsRouter.get('/numbers', async (req: AuthRequest, res, next) => {
+  try {
+    const { provider: requested } = req.query;
+    const { provider } = await telephonyService.resolve('', null, { provider: requested as string | undefined });
+
+    res.json({
+      status: 'success',
+      provider: provider.name,
+      numbers: await provider.listNumbers()
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Search call transcripts; every word of q must appear
+callsRouter.get('/search', async (req: AuthRequest, res, next) => {
+  try {
+    const query = String(req.query.q || '').trim();
+    if (!query) {
+      throw createError('q is required', 400);
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || SEARCH_LIMIT, 1), SEARCH_LIMIT);
+
+    const results = await callService.search(query, { redact: redacts(req), limit, builder_id: builderScope(req) });
+
+    res.json({
+      status: 'success',
+      query,
+      results,
+      count: results.length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Where the ElevenLabs conversation sync has got to for each agent (admins only; it spans every builder)
+callsRouter.get('/sync', requireRole('admin'), async (req: AuthRequest, res, next) => {
+  try {
+    res.json({
+      status: 'success',
+      running: conversationSyncService.isRunning(),
+      agents: await repository.conversationSync.list()
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Pull new ElevenLabs conversations into call records now, for one agent or all (admins only)
+callsRouter.post('/sync', requireRole('admin'), validateBody(conversationSyncSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const result = await conversationSyncService.sync(req.body.agent_id || undefined);
+
+    res.json({
+      status: 'success',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get call by ID
 callsRouter.get('/:callId', async (req: AuthRequest, res, next) => {
   try {
-    const { callId } = req.params;
-    const lead = await csvStorage.getLeadById(callId);
+    const call = await loadCall(req);
     
-    if (!lead) {
-      throw createError('Call not found', 404);
-    }
-    
-    // Enrich with tenant and property information
-    const tenant = lead.tenant_id 
-      ? await csvStorage.getTenantById(lead.tenant_id)
+    // Enrich with tenant and lead information
+    const tenant = call.tenant_id 
+      ? await repository.tenants.getById(call.tenant_id)
       : null;
-    const property = lead.property_id
-      ? await csvStorage.getPropertyById(lead.property_id)
+    const lead = call.lead_id
+      ? await repository.leads.getById(call.lead_id)
       : null;
+    const turns = await callService.transcriptTurns(call);
+    const recording = await repository.callRecordings.getByCall(call.id);
     
     res.json({ 
       status: 'success', 
       call: {
-        id: lead.lead_id,
-        conversation_id: lead.lead_id,
-        tenant_id: lead.tenant_id,
-        property_id: lead.property_id,
-        channel: lead.channel || 'call',
-        transcript: lead.transcript,
-        recording_url: lead.call_recording_url,
-        status: lead.status,
-        match_score: lead.match_score,
-        nlp_extracted: lead.nlp_extracted,
+        ...visibleCall(req, call),
+        transcript_turns: redacts(req) ? redactTurns(turns) : turns,
+        recording: recording && { ...recording, expires_at: recordingExpiry(recording) },
         tenant,
-        property,
-        created_at: lead.created_at,
-        updated_at: lead.updated_at
+        lead: lead && redacts(req) ? withRedactedTranscript(lead) : lead
       }
     });
   } catch (error) {
@@ -94,13 +163,14 @@ callsRouter.get('/:callId', async (req: AuthRequest, res, next) => {
 // Initiate outbound call
 callsRouter.post('/outbound', async (req: AuthRequest, res, next) => {
   try {
-    const { name, mobile_number, agent_id, from_number, custom_args_values, call_config } = req.body;
+    const { name, mobile_number, agent_id, from_number, custom_args_values, call_config, tenant_id, lead_id, provider: requestedProvider } = req.body;
 
     console.log('Outbound call request received:', {
       name,
       mobile_number,
       agent_id,
       from_number,
+      provider: requestedProvider,
       custom_args_values,
       has_call_config: !!call_config
     });
@@ -108,56 +178,140 @@ callsRouter.post('/outbound', async (req: AuthRequest, res, next) => {
     if (!name || !mobile_number) {
       throw createError('Name and mobile_number are required', 400);
     }
+
+    // Link the call to its lead and tenant; the tenant comes from the lead, the request, or the number called
+    const lead = lead_id ? await repository.leads.getById(lead_id) : null;
+    if (lead_id && !lead) {
+      throw createError('Lead not found', 404);
+    }
+    const tenant = lead
+      ? await repository.tenants.getById(lead.tenant_id)
+      : tenant_id
+        ? await repository.tenants.getById(tenant_id)
+        : await repository.tenants.getByPhone(mobile_number);
+    if (tenant_id && !lead && !tenant) {
+      throw createError('Tenant not found', 404);
+    }
     
     // Format mobile number with country code if not present
-    let formattedNumber = mobile_number.trim();
-    if (!formattedNumber.startsWith('+')) {
-      // Remove any spaces, dashes, or parentheses
-      formattedNumber = formattedNumber.replace(/[\s\-\(\)]/g, '');
-      
-      // Assume Indian number if no country code
-      if (formattedNumber.startsWith('0')) {
-        formattedNumber = '+91' + formattedNumber.substring(1);
-      } else if (formattedNumber.length === 10) {
-        formattedNumber = '+91' + formattedNumber;
-      } else if (formattedNumber.length > 10) {
-        // Might already have country code without +
-        formattedNumber = '+' + formattedNumber;
-      } else {
-        throw createError('Invalid mobile number format', 400);
-      }
-    }
-
-    // Validate formatted number
-    if (!/^\+[1-9]\d{1,14}$/.test(formattedNumber)) {
+    const formattedNumber = toE164(mobile_number);
+    if (!formattedNumber) {
       throw createError('Invalid mobile number format. Must be in E.164 format (e.g., +919876543210)', 400);
     }
 
-    // Build call parameters
-    // from_number is required by Ringg AI - will use default if not provided
-    const callParams: any = {
-      name: name.trim(),
-      mobile_number: formattedNumber,
-      agent_id,
-      custom_args_values,
-      call_config
-    };
+    // Refuse numbers on the DNC list or without consent to calls
+    await complianceService.assertCanContact({
+      phone: formattedNumber,
+      channel: 'call',
+      context: 'outbound_call',
+      actor: { id: req.user!.id, type: 'user' },
+      tenant
+    });
 
-    // Include from_number if provided, otherwise service will use default
-    if (from_number && from_number.trim() !== '') {
-      callParams.from_number = from_number.trim();
-    }
-    // If not provided, the service will use the default from_number (+918035736726)
+    // The requested provider, else the agent's, else the default
+    const { provider, from_number: fromNumber } = await telephonyService.resolve(agent_id || '', req.user!.builderId, {
+      provider: requestedProvider,
+      from_number: from_number?.trim()
+    });
 
-    const callResponse = await initiateOutboundCall(callParams);
+    const call = await telephonyService.placeCall(provider, {
+      to_number: formattedNumber,
+      agent_id: agent_id || '',
+      name: name.trim(),
+      ...(fromNumber && { from_number: fromNumber }),
+      ...(custom_args_values && { variables: custom_args_values }),
+      ...(call_config && { options: call_config })
+    }, {
+      tenant_id: tenant?.tenant_id,
+      lead_id: lead?.lead_id,
+      initiated_by: req.user!.id,
+      builder_id: req.user!.builderId
+    });
 
     res.json({
       status: 'success',
       message: 'Call initiated successfully',
-      call: callResponse.data
+      call
     });
   } catch (error: any) {
     console.error('Error initiating outbound call:', error);
     next(error);
   }
 });
+
+// Fetch the call's latest status from its provider, e.g. when a callback was missed
+callsRouter.post('/:callId/refresh', async (req: AuthRequest, res, next) => {
+  try {
+    const call = await loadCall(req);
+
+    res.json({
+      status: 'success',
+      call: visibleCall(req, await telephonyService.refresh(call, { id: req.user!.id, type: 'user' }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Play the call's archived recording; supports Range requests for seeking
+callsRouter.get('/:callId/recording', async (req: AuthRequest, res, next) => {
+  try {
+    const call = await loadCall(req);
+    const recording = call.recording_id ? await repository.callRecordings.getById(call.recording_id) : null;
+    if (!recording || recording.status !== 'stored') {
+      throw createError('No recording is stored for this call', 404);
+    }
+
+    const store = getRecordingStore();
+    const size = await store.size(recording.storage_key);
+    if (size == null) {
+      throw createError('Recording file is missing', 404);
+    }
+
+    res.set({
+      'Content-Type': recording.content_type,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-store',
+      'Content-Disposition': `inline; filename="${recording.storage_key}"`
+    });
+
+    // Single ranges are served as 206; malformed or multiple ranges get the whole file
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+      res.set('Content-Range', `bytes */${size}`);
+      throw createError('Requested range is not satisfiable', 416);
+    }
+    const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1 ? ranges[0] : null;
+    if (range) {
+      res.status(206).set({
+        'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+        'Content-Length': String(range.end - range.start + 1)
+      });
+    } else {
+      res.set('Content-Length', String(size));
+    }
+
+    const audio = store.read(recording.storage_key, range || undefined);
+    audio.on('error', next);
+    audio.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete the call's recording, e.g. at the tenant's request (admin only)
+callsRouter.delete('/:callId/recording', requireRole('admin'), validateBody(recordingDeleteSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const call = await loadCall(req);
+
+    const recording = await recordingService.deleteForCall(call, { id: req.user!.id, type: 'user' }, req.body.reason || 'Deleted on request');
+
+    res.json({
+      status: 'success',
+      recording,
+      message: 'Recording deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
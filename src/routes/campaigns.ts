@@ -0,0 +1,159 @@
+/**
+ * Campaigns Routes
+ * Outbound calling campaigns for owners
+ */
+
+import { Router } from 'express';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import { campaignSchema } from '../models/schemas';
+import { Campaign, CampaignContactStatus, CampaignSegment, CampaignStatus } from '../models/types';
+import { campaignService, CampaignAction } from '../services/campaigns';
+import { telephonyService } from '../services/telephony';
+
+export const campaignsRouter = Router();
+campaignsRouter.use(authenticate);
+campaignsRouter.use(requireRole('owner'));
+
+// Owners see their own campaigns; admins see all
+const loadCampaign = async (req: AuthRequest): Promise<Campaign> => {
+  const campaign = await repository.campaigns.getById(req.params.campaignId);
+  if (!campaign || (req.user!.user_type !== 'admin' && campaign.builder_id !== req.user!.builderId)) {
+    throw createError('Campaign not found', 404);
+  }
+  return campaign;
+};
+
+const optionalNumber = (value: string | undefined): number | undefined =>
+  value ? Number(value) : undefined;
+
+// Get all campaigns
+campaignsRouter.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const { status } = req.query;
+
+    const campaigns = await repository.campaigns.list({
+      builder_id: req.user!.user_type === 'admin' ? undefined : req.user!.builderId,
+      status: status as CampaignStatus | undefined
+    });
+
+    res.json({
+      status: 'success',
+      campaigns,
+      count: campaigns.length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a draft campaign and select its contacts
+campaignsRouter.post('/', validateBody(campaignSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const body = req.body;
+
+    // The campaign's provider, or the agent's when none is given
+    const { provider, from_number } = await telephonyService.resolve(body.agent_id, req.user!.builderId, {
+      provider: body.provider,
+      from_number: body.from_number
+    });
+    if (provider.requiresFromNumber && !from_number) {
+      throw createError(`from_number is required for ${provider.name} campaigns`, 400);
+    }
+
+    const segment: CampaignSegment = {
+      ...(body.city && { city: body.city }),
+      ...(body.localities && { localities: body.localities }),
+      budget_min: optionalNumber(body.budget_min),
+      budget_max: optionalNumber(body.budget_max),
+      bedrooms: optionalNumber(body.bedrooms)
+    };
+
+    const { campaign, contacts } = await campaignService.create({
+      builder_id: req.user!.builderId,
+      name: body.name,
+      provider: provider.name,
+      agent_id: body.agent_id,
+      from_number,
+      segment: body.dataset_id ? null : segment,
+      dataset_id: body.dataset_id || null,
+      calling_start: body.calling_start || '09:00',
+      calling_end: body.calling_end || '21:00',
+      timezone: body.timezone || 'Asia/Kolkata',
+      concurrency: optionalNumber(body.concurrency) ?? 2,
+      max_attempts: optionalNumber(body.max_attempts) ?? 3,
+      retry_delay_minutes: optionalNumber(body.retry_delay_minutes) ?? 60,
+      created_by: req.user!.id
+    });
+
+    res.status(201).json({
+      status: 'success',
+      campaign,
+      contacts
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get campaign with contact counts
+campaignsRouter.get('/:campaignId', async (req: AuthRequest, res, next) => {
+  try {
+    const campaign = await loadCampaign(req);
+
+    res.json({
+      status: 'success',
+      campaign,
+      summary: await campaignService.summarize(campaign)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Per-contact progress and outcomes
+campaignsRouter.get('/:campaignId/contacts', async (req: AuthRequest, res, next) => {
+  try {
+    const campaign = await loadCampaign(req);
+    const { status } = req.query;
+
+    const contacts = await repository.campaignContacts.listByCampaign(
+      campaign.id,
+      status as CampaignContactStatus | undefined
+    );
+
+    res.json({
+      status: 'success',
+      contacts,
+      count: contacts.length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Start, pause, resume or cancel a campaign
+const ACTION_MESSAGES: Record<CampaignAction, string> = {
+  start: 'Campaign started',
+  pause: 'Campaign paused',
+  resume: 'Campaign resumed',
+  cancel: 'Campaign cancelled'
+};
+
+for (const action of Object.keys(ACTION_MESSAGES) as CampaignAction[]) {
+  campaignsRouter.post(`/:campaignId/${action}`, async (req: AuthRequest, res, next) => {
+    try {
+      const campaign = await campaignService.apply(await loadCampaign(req), action);
+
+      res.json({
+        status: 'success',
+        campaign,
+        message: ACTION_MESSAGES[action]
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
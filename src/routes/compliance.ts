@@ -0,0 +1,190 @@
+/**
+ * Compliance Routes
+ * Tenant consent, the do-not-call (DNC) registry and the compliance audit log
+ */
+
+import { Router } from 'express';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import { consentGiveSchema, consentWithdrawSchema, dncAddSchema, dncRemoveSchema } from '../models/schemas';
+import { ComplianceAuditEntry, ContactChannel, Tenant } from '../models/types';
+import { complianceService, consentedChannels, phoneKey, ComplianceActor } from '../services/compliance';
+import { splitList } from '../utils/listing';
+
+export const complianceRouter = Router();
+complianceRouter.use(authenticate);
+
+const actorOf = (req: AuthRequest): ComplianceActor => ({ id: req.user!.id, type: 'user' });
+
+// The tenant record for a signed-in tenant, matched by their phone number
+const ownTenant = async (req: AuthRequest): Promise<Tenant> => {
+  const phone = req.user!.phone || (await repository.users.getById(req.user!.id))?.phone;
+  const tenant = phone
+    ? (await repository.tenants.list()).find(t => t.phone && phoneKey(t.phone) === phoneKey(phone))
+    : null;
+  if (!tenant) {
+    throw createError('No tenant record for your phone number', 404);
+  }
+  return tenant;
+};
+
+// The tenant whose consent is being changed: tenants change their own, owners and admins name one
+const consentTenant = async (req: AuthRequest, tenantId?: string): Promise<Tenant> => {
+  if (req.user!.user_type === 'tenant') {
+    return ownTenant(req);
+  }
+  if (!tenantId) {
+    throw createError('tenant_id is required', 400);
+  }
+  const tenant = await repository.tenants.getById(tenantId);
+  if (!tenant) {
+    throw createError('Tenant not found', 404);
+  }
+  return tenant;
+};
+
+// Get the signed-in tenant's consent
+complianceRouter.get('/consent', async (req: AuthRequest, res, next) => {
+  try {
+    const tenant = await ownTenant(req);
+
+    res.json({
+      status: 'success',
+      consent: {
+        tenant_id: tenant.tenant_id,
+        consent_timestamp: tenant.consent_timestamp,
+        channels: consentedChannels(tenant),
+        on_dnc_list: !!(await repository.dnc.getActiveByPhone(phoneKey(tenant.phone)))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Give consent. Tenants give their own; admins record a tenant's consent with where it was given
+complianceRouter.post('/consent', validateBody(consentGiveSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { tenant_id, channels, source, note } = req.body;
+    if (req.user!.user_type === 'owner') {
+      throw createError('Only the tenant or an admin can record consent', 403);
+    }
+    if (req.user!.user_type === 'admin' && !source) {
+      throw createError('source is required: where the tenant gave consent', 400);
+    }
+    const tenant = await consentTenant(req, tenant_id);
+
+    const given = splitList(channels || '').map(channel => channel.toLowerCase()) as ContactChannel[];
+    const updated = await complianceService.giveConsent(tenant, given, actorOf(req), {
+      source: req.user!.user_type === 'tenant' ? 'tenant' : source,
+      note
+    });
+
+    res.json({
+      status: 'success',
+      consent: {
+        tenant_id: updated.tenant_id,
+        consent_timestamp: updated.consent_timestamp,
+        channels: consentedChannels(updated)
+      },
+      message: 'Consent recorded'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Withdraw consent. Tenants withdraw their own; owners and admins name the tenant
+complianceRouter.post('/consent/withdraw', validateBody(consentWithdrawSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { tenant_id, channels, note } = req.body;
+    const tenant = await consentTenant(req, tenant_id);
+
+    const withdrawn = splitList(channels || '').map(channel => channel.toLowerCase()) as ContactChannel[];
+    const updated = await complianceService.withdrawConsent(tenant, withdrawn, actorOf(req), note);
+
+    res.json({
+      status: 'success',
+      consent: {
+        tenant_id: updated.tenant_id,
+        consent_timestamp: updated.consent_timestamp,
+        channels: consentedChannels(updated)
+      },
+      message: 'Consent withdrawn'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List DNC entries (owners and admins)
+complianceRouter.get('/dnc', requireRole('owner'), async (req: AuthRequest, res, next) => {
+  try {
+    const { phone, include_removed } = req.query;
+
+    const entries = await repository.dnc.list({
+      phone: phone ? phoneKey(phone as string) : undefined,
+      includeRemoved: include_removed === 'true'
+    });
+
+    res.json({
+      status: 'success',
+      entries,
+      count: entries.length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a number to the DNC list by hand
+complianceRouter.post('/dnc', requireRole('owner'), validateBody(dncAddSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const entry = await complianceService.addToDnc(req.body.phone, 'manual', actorOf(req), { note: req.body.note });
+
+    res.status(201).json({
+      status: 'success',
+      entry
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Take a number off the DNC list (admin only); the entry is kept as removed
+complianceRouter.delete('/dnc/:entryId', requireRole('admin'), validateBody(dncRemoveSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const entry = await complianceService.removeFromDnc(req.params.entryId, actorOf(req), req.body.note);
+
+    res.json({
+      status: 'success',
+      entry,
+      message: 'DNC entry removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Compliance audit log, newest first (admin only)
+complianceRouter.get('/audit', requireRole('admin'), async (req: AuthRequest, res, next) => {
+  try {
+    const { phone, tenant_id, action } = req.query;
+
+    const entries = await repository.complianceAudit.list({
+      phone: phone ? phoneKey(phone as string) : undefined,
+      tenant_id: tenant_id as string | undefined,
+      action: action as ComplianceAuditEntry['action'] | undefined
+    });
+
+    res.json({
+      status: 'success',
+      entries,
+      count: entries.length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
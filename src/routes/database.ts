@@ -1,20 +1,21 @@
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { fileStorage } from '../config/storage';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
+import { config } from '../config/env';
 import { createError } from '../middleware/errorHandler';
 import { perplexityService } from '../services/perplexity';
 import multer from 'multer';
-import csv from 'csv-parser';
-import xlsx from 'xlsx';
 import fs from 'fs';
 import path from 'path';
+import { datasetFilePath, parseCSV, parseExcel, readDatasetRows } from '../utils/spreadsheet';
 
 export const databaseRouter = Router();
 databaseRouter.use(authenticate);
+databaseRouter.use(requireRole('owner'));
 
 // Configure multer for file uploads
 const upload = multer({
-  dest: 'uploads/datasets/',
+  dest: path.join(config.storage.uploadsDir, 'datasets'),
   limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
   fileFilter: (req, file, cb) => {
     const allowedTypes = /csv|xlsx|xls/;
@@ -36,7 +37,7 @@ databaseRouter.get('/', async (req: AuthRequest, res, next) => {
   try {
     const builderId = req.user!.builderId;
 
-    const datasets = fileStorage.getDatasets(builderId);
+    const datasets = await repository.datasets.listByBuilder(builderId);
 
     res.json({ status: 'success', datasets: datasets || [] });
   } catch (error) {
@@ -72,7 +73,7 @@ databaseRouter.post('/upload', upload.single('file'), async (req: AuthRequest, r
     }
 
     // Store file in uploads directory
-    const datasetsDir = path.join(process.cwd(), 'uploads', 'datasets', builderId);
+    const datasetsDir = path.join(config.storage.uploadsDir, 'datasets', builderId);
     if (!fs.existsSync(datasetsDir)) {
       fs.mkdirSync(datasetsDir, { recursive: true });
     }
@@ -83,7 +84,7 @@ databaseRouter.post('/upload', upload.single('file'), async (req: AuthRequest, r
     const fileUrl = `/uploads/datasets/${builderId}/${fileName}`;
 
     // Store dataset metadata
-    const dataset = fileStorage.createDataset({
+    const dataset = await repository.datasets.create({
       builder_id: builderId,
       file_url: fileUrl,
       file_name: file.originalname,
@@ -115,24 +116,13 @@ databaseRouter.get('/:datasetId', async (req: AuthRequest, res, next) => {
     const { datasetId } = req.params;
     const builderId = req.user!.builderId;
 
-    const dataset = fileStorage.getDatasetById(datasetId, builderId);
+    const dataset = await repository.datasets.getById(datasetId, builderId);
     if (!dataset) {
       throw createError('Dataset not found', 404);
     }
 
     // Read and parse the file to get sample rows
-    const filePath = path.join(process.cwd(), dataset.file_url.replace(/^\//, ''));
-    let sampleRows: any[] = [];
-    
-    if (fs.existsSync(filePath)) {
-      const fileExt = path.extname(dataset.file_name).toLowerCase();
-      if (fileExt === '.csv') {
-        sampleRows = await parseCSV(filePath);
-      } else if (fileExt === '.xlsx' || fileExt === '.xls') {
-        sampleRows = await parseExcel(filePath);
-      }
-      sampleRows = sampleRows.slice(0, 10);
-    }
+    const sampleRows = (await readDatasetRows(dataset)).slice(0, 10);
 
     res.json({
       status: 'success',
@@ -150,19 +140,19 @@ databaseRouter.delete('/:datasetId', async (req: AuthRequest, res, next) => {
     const { datasetId } = req.params;
     const builderId = req.user!.builderId;
 
-    const dataset = fileStorage.getDatasetById(datasetId, builderId);
+    const dataset = await repository.datasets.getById(datasetId, builderId);
     if (!dataset) {
       throw createError('Dataset not found', 404);
     }
 
     // Delete file
-    const filePath = path.join(process.cwd(), dataset.file_url.replace(/^\//, ''));
+    const filePath = datasetFilePath(dataset);
     if (fs.existsSync(filePath)) {
       fs.unlinkSync(filePath);
     }
 
     // Delete dataset record
-    fileStorage.deleteDataset(datasetId, builderId);
+    await repository.datasets.delete(datasetId, builderId);
 
     res.json({ status: 'success', message: 'Dataset deleted' });
   } catch (error) {
@@ -188,7 +178,7 @@ databaseRouter.post('/ingest', async (req: AuthRequest, res, next) => {
     if (searchResults.listings.length > 0) {
       const csvData = convertListingsToCSV(searchResults.listings);
       const fileName = `perplexity_listings_${Date.now()}.csv`;
-      const datasetsDir = path.join(process.cwd(), 'uploads', 'datasets', builderId);
+      const datasetsDir = path.join(config.storage.uploadsDir, 'datasets', builderId);
       
       if (!fs.existsSync(datasetsDir)) {
         fs.mkdirSync(datasetsDir, { recursive: true });
@@ -199,7 +189,7 @@ databaseRouter.post('/ingest', async (req: AuthRequest, res, next) => {
       const fileUrl = `/uploads/datasets/${builderId}/${fileName}`;
 
       // Store dataset metadata
-      const dataset = fileStorage.createDataset({
+      const dataset = await repository.datasets.create({
         builder_id: builderId,
         file_url: fileUrl,
         file_name: fileName,
@@ -301,25 +291,6 @@ function convertListingsToCSV(listings: any[]): string {
   return csvRows.join('\n');
 }
 
-// Helper functions
-async function parseCSV(filePath: string): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    const results: any[] = [];
-    fs.createReadStream(filePath)
-      .pipe(csv())
-      .on('data', (data) => results.push(data))
-      .on('end', () => resolve(results))
-      .on('error', reject);
-  });
-}
-
-async function parseExcel(filePath: string): Promise<any[]> {
-  const workbook = xlsx.readFile(filePath);
-  const sheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[sheetName];
-  return xlsx.utils.sheet_to_json(worksheet);
-}
-
 function analyzeDataHealth(rows: any[]): {
   total_rows: number;
   has_name: boolean;
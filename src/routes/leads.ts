@@ -4,98 +4,67 @@
  */
 
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { csvStorage } from '../config/csvStorage';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
 import { createError } from '../middleware/errorHandler';
+import { leadService, LeadActor } from '../services/leads';
+import { Lead } from '../models/types';
+import { validateBody } from '../middleware/validate';
+import { withRedactedTranscript } from '../utils/transcript';
+import { leadSchema, leadUpdateSchema, leadReleaseSchema, leadReassignSchema } from '../models/schemas';
 
 export const leadsRouter = Router();
 leadsRouter.use(authenticate);
+leadsRouter.use(requireRole('owner'));
 
-// Get all leads (show tenants.csv as leads)
+const actorOf = (req: AuthRequest): LeadActor => ({
+  id: req.user!.id,
+  type: 'user',
+  admin: req.user!.user_type === 'admin'
+});
+
+// Owners see transcripts with phone numbers, emails and IDs redacted; admins see them as recorded
+const visible = <T extends { transcript: string }>(req: AuthRequest, record: T): T =>
+  req.user!.user_type === 'admin' ? record : withRedactedTranscript(record);
+
+// Parse the stored breakdown JSON for API responses
+const parseBreakdown = (lead: Lead) => {
+  try {
+    return JSON.parse(lead.match_breakdown || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Get all leads
 leadsRouter.get('/', async (req: AuthRequest, res, next) => {
   try {
     const { owner_id, tenant_id, property_id, status } = req.query;
     
-    // Get all tenants as leads
-    const tenants = await csvStorage.getTenants();
-    
-    // Get owner's properties for matching
-    let ownerProperties: any[] = [];
-    if (owner_id) {
-      ownerProperties = await csvStorage.getProperties({ owner_id: owner_id as string });
-    } else {
-      // Get all properties for matching
-      ownerProperties = await csvStorage.getProperties();
+    const leads = await repository.leads.list({
+      owner_id: owner_id as string | undefined,
+      tenant_id: tenant_id as string | undefined,
+      property_id: property_id as string | undefined,
+      status: status as string | undefined
+    });
+
+    // Load tenants and properties once instead of per lead
+    const tenants = new Map((await repository.tenants.list()).map(tenant => [tenant.tenant_id, tenant]));
+    const properties = new Map((await repository.properties.list()).map(property => [property.property_id, property]));
+    const leadsPerTenant = new Map<string, number>();
+    for (const lead of leads) {
+      leadsPerTenant.set(lead.tenant_id, (leadsPerTenant.get(lead.tenant_id) || 0) + 1);
     }
-    
-    // Convert tenants to leads format (show all leads regardless of matching)
-    const leads = tenants.map((tenant) => {
-      // Find matching properties based on tenant requirements (for display only)
-      const matchingProperties = ownerProperties.filter((prop) => {
-        let matches = 0;
-        
-        // Match locality (nearby matching)
-        if (tenant.localities && prop.locality) {
-          const tenantLocalities = tenant.localities.toLowerCase().split(',').map((l: string) => l.trim());
-          const propLocality = prop.locality.toLowerCase();
-          if (tenantLocalities.some((loc: string) => propLocality.includes(loc) || loc.includes(propLocality))) {
-            matches++;
-          }
-        }
-        
-        // Match budget (within ±20%)
-        if (tenant.budget_min && tenant.budget_max && prop.rent) {
-          const tenantMin = parseFloat(tenant.budget_min);
-          const tenantMax = parseFloat(tenant.budget_max);
-          const propRent = parseFloat(prop.rent);
-          const budgetRange = (tenantMax - tenantMin) * 0.2; // 20% range
-          if (propRent >= tenantMin - budgetRange && propRent <= tenantMax + budgetRange) {
-            matches++;
-          }
-        }
-        
-        // Match bedrooms
-        if (tenant.bedrooms && prop.bedrooms) {
-          if (tenant.bedrooms === prop.bedrooms) {
-            matches++;
-          }
-        }
-        
-        // Match amenities (if any amenity matches)
-        if (tenant.amenities && prop.amenities) {
-          const tenantAmenities = tenant.amenities.toLowerCase().split(',').map((a: string) => a.trim());
-          const propAmenities = prop.amenities.toLowerCase().split(',').map((a: string) => a.trim());
-          if (tenantAmenities.some((amenity: string) => propAmenities.includes(amenity))) {
-            matches++;
-          }
-        }
-        
-        // Return true if at least one match (relaxed matching)
-        return matches > 0;
-      });
-      
-      // Calculate match score (percentage of matching criteria)
-      const matchScore = matchingProperties.length > 0 
-        ? Math.min(0.9, 0.5 + (matchingProperties.length * 0.1))
-        : 0.3;
-      
-      // Get the best matching property (if any)
-      const bestMatch = matchingProperties[0] || null;
-      
+
+    const enrichedLeads = leads.map(lead => {
+      const tenant = tenants.get(lead.tenant_id);
+      const property = properties.get(lead.property_id);
+
       return {
-        lead_id: tenant.tenant_id || `lead_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        tenant_id: tenant.tenant_id,
-        property_id: bestMatch?.property_id || '',
-        property_code: bestMatch?.property_code || '',
-        channel: 'tenant_csv',
-        transcript: '',
-        call_recording_url: '',
-        match_score: matchScore.toString(),
-        status: status as string || 'new',
-        owner_notified: 'false',
-        created_at: tenant.created_at || new Date().toISOString(),
-        updated_at: tenant.updated_at || new Date().toISOString(),
-        tenant: {
+        ...visible(req, lead),
+        owner_user_id: leadService.claimHolder(lead) || '',
+        match_breakdown: parseBreakdown(lead),
+        tenant: tenant ? {
           tenant_id: tenant.tenant_id,
           name: tenant.name,
           phone: tenant.phone,
@@ -107,34 +76,44 @@ leadsRouter.get('/', async (req: AuthRequest, res, next) => {
           budget_max: tenant.budget_max,
           bedrooms: tenant.bedrooms,
           amenities: tenant.amenities
-        },
-        property: bestMatch ? {
-          property_id: bestMatch.property_id,
-          property_code: bestMatch.property_code,
-          title: bestMatch.title,
-          locality: bestMatch.locality,
-          rent: bestMatch.rent,
-          bedrooms: bestMatch.bedrooms,
-          area_sqft: bestMatch.area_sqft,
-          amenities: bestMatch.amenities
         } : null,
-        matching_properties_count: matchingProperties.length
+        property: property ? {
+          property_id: property.property_id,
+          property_code: property.property_code,
+          title: property.title,
+          locality: property.locality,
+          rent: property.rent,
+          bedrooms: property.bedrooms,
+          area_sqft: property.area_sqft,
+          amenities: property.amenities
+        } : null,
+        matching_properties_count: leadsPerTenant.get(lead.tenant_id) || 0
       };
     });
     
-    // Filter by status if provided
-    let filteredLeads = leads;
-    if (status) {
-      filteredLeads = leads.filter((lead) => lead.status === status);
-    }
-    
-    // Sort by created_at (newest first) - show all leads regardless of matching
-    filteredLeads.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-    
     res.json({ 
       status: 'success', 
-      leads: filteredLeads,
-      count: filteredLeads.length 
+      leads: enrichedLeads,
+      count: enrichedLeads.length 
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Match tenants against the caller's properties and store any new leads (admins: all properties)
+leadsRouter.post('/generate', async (req: AuthRequest, res, next) => {
+  try {
+    const ownerId = req.user!.user_type === 'admin'
+      ? (req.body.owner_id as string | undefined)
+      : req.user!.id;
+
+    const { created, updated } = await leadService.generateAll(ownerId);
+
+    res.json({ 
+      status: 'success', 
+      created,
+      updated
     });
   } catch (error) {
     next(error);
@@ -145,26 +124,34 @@ leadsRouter.get('/', async (req: AuthRequest, res, next) => {
 leadsRouter.get('/:leadId', async (req: AuthRequest, res, next) => {
   try {
     const { leadId } = req.params;
-    const lead = await csvStorage.getLeadById(leadId);
+    const lead = await repository.leads.getById(leadId);
     
     if (!lead) {
       throw createError('Lead not found', 404);
     }
     
-    // Enrich with tenant and property information
+    // Enrich with tenant, property and call information
     const tenant = lead.tenant_id 
-      ? await csvStorage.getTenantById(lead.tenant_id)
+      ? await repository.tenants.getById(lead.tenant_id)
       : null;
     const property = lead.property_id
-      ? await csvStorage.getPropertyById(lead.property_id)
+      ? await repository.properties.getById(lead.property_id)
       : null;
+    // Owners see their builder's calls on the lead; admins see all
+    const calls = await repository.calls.list({
+      lead_id: leadId,
+      builder_id: req.user!.user_type === 'admin' ? undefined : req.user!.builderId
+    });
     
     res.json({ 
       status: 'success', 
       lead: {
-        ...lead,
+        ...visible(req, lead),
+        owner_user_id: leadService.claimHolder(lead) || '',
+        match_breakdown: parseBreakdown(lead),
         tenant,
-        property
+        property,
+        calls: calls.map(call => visible(req, call))
       }
     });
   } catch (error) {
@@ -173,15 +160,15 @@ leadsRouter.get('/:leadId', async (req: AuthRequest, res, next) => {
 });
 
 // Create lead
-leadsRouter.post('/', async (req: AuthRequest, res, next) => {
+leadsRouter.post('/', validateBody(leadSchema), async (req: AuthRequest, res, next) => {
   try {
     const leadData = {
       ...req.body,
-      status: req.body.status || 'new',
+      status: 'new',
       owner_notified: req.body.owner_notified || 'false'
     };
 
-    const lead = await csvStorage.createLead(leadData);
+    const lead = await leadService.create(leadData, actorOf(req), 'Created manually');
     
     res.status(201).json({ 
       status: 'success', 
@@ -193,50 +180,103 @@ leadsRouter.post('/', async (req: AuthRequest, res, next) => {
 });
 
 // Update lead
-leadsRouter.put('/:leadId', async (req: AuthRequest, res, next) => {
+leadsRouter.put('/:leadId', validateBody(leadUpdateSchema), async (req: AuthRequest, res, next) => {
   try {
     const { leadId } = req.params;
-    const lead = await csvStorage.getLeadById(leadId);
+    const lead = await repository.leads.getById(leadId);
     
     if (!lead) {
       throw createError('Lead not found', 404);
     }
 
-    const updatedLead = await csvStorage.updateLead(leadId, req.body);
+    const actor = actorOf(req);
+    leadService.assertCanModify(lead, actor);
+
+    // Status changes are checked against the lifecycle and recorded with the reason
+    const { status, reason, ...updates } = req.body;
+    const changedLead = status
+      ? await leadService.changeStatus(lead, status, actor, reason, updates)
+      : await repository.leads.update(leadId, updates);
+    const updatedLead = await leadService.renewClaim(changedLead!, actor);
     
     res.json({ 
       status: 'success', 
-      lead: updatedLead 
+      lead: visible(req, updatedLead)
     });
   } catch (error) {
     next(error);
   }
 });
 
-// Claim lead (for owners)
+// Claim lead (for owners). Claims are exclusive: 409 if another owner holds it
 leadsRouter.post('/:leadId/claim', async (req: AuthRequest, res, next) => {
   try {
     const { leadId } = req.params;
-    const { owner_user_id } = req.body;
+    const lead = await leadService.claim(leadId, actorOf(req));
+    
+    res.json({ 
+      status: 'success', 
+      lead: visible(req, lead),
+      message: 'Lead claimed successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Release a claim (claim holder or admin)
+leadsRouter.post('/:leadId/release', validateBody(leadReleaseSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { leadId } = req.params;
+    const lead = await leadService.release(leadId, actorOf(req), req.body.reason);
+    
+    res.json({ 
+      status: 'success', 
+      lead: visible(req, lead),
+      message: 'Lead claim released'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reassign a lead to another owner, overriding any claim (admin only)
+leadsRouter.post('/:leadId/reassign', requireRole('admin'), validateBody(leadReassignSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { leadId } = req.params;
+    const { owner_user_id, reason } = req.body;
+    const lead = await leadService.reassign(leadId, owner_user_id, actorOf(req), reason);
+    
+    res.json({ 
+      status: 'success', 
+      lead,
+      message: 'Lead reassigned'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Lead history, oldest first
+leadsRouter.get('/:leadId/history', async (req: AuthRequest, res, next) => {
+  try {
+    const { leadId } = req.params;
+    const lead = await repository.leads.getById(leadId);
     
-    const lead = await csvStorage.getLeadById(leadId);
     if (!lead) {
       throw createError('Lead not found', 404);
     }
 
-    const updatedLead = await csvStorage.updateLead(leadId, {
-      status: 'claimed',
-      owner_user_id: owner_user_id || req.user!.id,
-      owner_notified: 'true'
-    });
+    const history = await repository.leadHistory.listByLead(leadId);
     
     res.json({ 
       status: 'success', 
-      lead: updatedLead,
-      message: 'Lead claimed successfully'
+      lead_id: leadId,
+      current_status: leadService.statusOf(lead),
+      history,
+      count: history.length
     });
   } catch (error) {
     next(error);
   }
 });
-
@@ -0,0 +1,140 @@
+/**
+ * Phone Numbers Routes
+ * The routing table for our phone numbers: which agent answers each one and
+ * which property or owner portfolio calls to it are about
+ */
+
+import { Router } from 'express';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
+import { config } from '../config/env';
+import { createError } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import { phoneNumberSchema, phoneNumberUpdateSchema } from '../models/schemas';
+import { PhoneNumberRoute, TelephonyProviderName } from '../models/types';
+import { phoneRoutingService, RouteEditor } from '../services/phoneRouting';
+
+export const phoneNumbersRouter = Router();
+phoneNumbersRouter.use(authenticate);
+phoneNumbersRouter.use(requireRole('owner'));
+
+const editorOf = (req: AuthRequest): RouteEditor => ({ id: req.user!.id, admin: req.user!.user_type === 'admin' });
+
+// Owners see the numbers they set up; admins see all
+const loadRoute = async (req: AuthRequest): Promise<PhoneNumberRoute> => {
+  const route = await repository.phoneNumbers.getById(req.params.numberId);
+  if (!route || (req.user!.user_type !== 'admin' && route.builder_id !== req.user!.builderId)) {
+    throw createError('Phone number not found', 404);
+  }
+  return route;
+};
+
+// List routed numbers
+phoneNumbersRouter.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const numbers = await repository.phoneNumbers.list({
+      builder_id: req.user!.user_type === 'admin' ? undefined : req.user!.builderId
+    });
+
+    res.json({
+      status: 'success',
+      numbers,
+      count: numbers.length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a number to the routing table; a number can only be routed once
+phoneNumbersRouter.post('/', validateBody(phoneNumberSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { number, provider, agent_id, property_id, owner_id, label } = req.body;
+
+    if (await repository.phoneNumbers.getByNumber(number)) {
+      throw createError('This number is already routed', 409);
+    }
+    const providerName = (provider as TelephonyProviderName) || config.telephony.defaultProvider;
+    await phoneRoutingService.validateLine({ number, provider: providerName, agent_id, builder_id: req.user!.builderId });
+    await phoneRoutingService.validateTarget({ property_id, owner_id }, editorOf(req));
+
+    const route = await repository.phoneNumbers.create({
+      number,
+      provider: providerName,
+      agent_id,
+      property_id: property_id || null,
+      owner_id: owner_id || null,
+      label: label || '',
+      builder_id: req.user!.builderId
+    });
+
+    res.status(201).json({
+      status: 'success',
+      number: route
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a routed number with its property
+phoneNumbersRouter.get('/:numberId', async (req: AuthRequest, res, next) => {
+  try {
+    const route = await loadRoute(req);
+    const property = route.property_id ? await repository.properties.getById(route.property_id) : null;
+
+    res.json({
+      status: 'success',
+      number: { ...route, property }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change a number's agent, property or owner; send '' to clear the property or owner
+phoneNumbersRouter.put('/:numberId', validateBody(phoneNumberUpdateSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const route = await loadRoute(req);
+    const { provider, agent_id, property_id, owner_id, label } = req.body;
+
+    const updates: Partial<PhoneNumberRoute> = {};
+    if (provider) updates.provider = provider;
+    if (agent_id) updates.agent_id = agent_id;
+    if (property_id !== undefined) updates.property_id = property_id || null;
+    if (owner_id !== undefined) updates.owner_id = owner_id || null;
+    if (label !== undefined) updates.label = label;
+
+    // Setting one target replaces the other
+    if (updates.property_id) updates.owner_id = updates.owner_id ?? null;
+    if (updates.owner_id) updates.property_id = updates.property_id ?? null;
+    if (updates.provider || updates.agent_id) {
+      await phoneRoutingService.validateLine({ ...route, ...updates });
+    }
+    await phoneRoutingService.validateTarget({ ...route, ...updates }, editorOf(req));
+
+    const updated = await repository.phoneNumbers.update(route.id, updates);
+
+    res.json({
+      status: 'success',
+      number: updated
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a number from the routing table; leads already routed keep their owner
+phoneNumbersRouter.delete('/:numberId', async (req: AuthRequest, res, next) => {
+  try {
+    const route = await loadRoute(req);
+    await repository.phoneNumbers.delete(route.id);
+
+    res.json({
+      status: 'success',
+      message: 'Phone number removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
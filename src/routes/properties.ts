@@ -4,9 +4,15 @@
  */
 
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { csvStorage } from '../config/csvStorage';
-import { createError } from '../middleware/errorHandler';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
+import { config } from '../config/env';
+import { createError, FieldError } from '../middleware/errorHandler';
+import { validateBody, validateRecord } from '../middleware/validate';
+import { propertySchema, propertyUpdateSchema } from '../models/schemas';
+import { matchingService, MIN_MATCH_SCORE } from '../services/matching';
+import { leadService } from '../services/leads';
+import { Property } from '../models/types';
 import multer from 'multer';
 import csv from 'csv-parser';
 import fs from 'fs';
@@ -20,7 +26,7 @@ propertiesRouter.get('/public', async (req, res, next) => {
     const { limit } = req.query;
     const filters: any = { status: 'available' };
     
-    let properties = await csvStorage.getProperties(filters);
+    let properties = await repository.properties.list(filters);
     
     // Limit results if specified
     if (limit) {
@@ -41,9 +47,50 @@ propertiesRouter.get('/public', async (req, res, next) => {
 // Protected routes require authentication
 propertiesRouter.use(authenticate);
 
+// Owners may only modify their own listings; admins may modify any
+const assertPropertyOwner = (req: AuthRequest, property: any) => {
+  if (req.user!.user_type !== 'admin' && property.owner_id !== req.user!.id) {
+    throw createError('You do not have permission to modify this property', 403);
+  }
+};
+
+// Lead generation must not fail the save; POST /api/leads/generate catches up later
+const generateLeads = (properties: Property[]) =>
+  leadService.generateForProperties(properties).catch(error => console.error('Lead generation failed:', error));
+
+interface RejectedRow {
+  // Line in the CSV file; the header is line 1
+  row: number;
+  errors: FieldError[];
+}
+
+/**
+ * Check imported rows with the same rules as POST /api/properties. Rows that
+ * fail are left out and reported; 400 if no row passes.
+ */
+const validateRows = async (rows: any[]): Promise<{ valid: Partial<Property>[]; rejected: RejectedRow[] }> => {
+  const valid: Partial<Property>[] = [];
+  const rejected: RejectedRow[] = [];
+  for (const [index, row] of rows.entries()) {
+    const { data, errors } = await validateRecord(propertySchema, row);
+    if (errors.length > 0) {
+      rejected.push({ row: index + 2, errors });
+    } else {
+      valid.push(data);
+    }
+  }
+
+  if (valid.length === 0) {
+    const error = createError('No row in the CSV file is valid', 400);
+    error.errors = rejected.flatMap(({ row, errors }) => errors.map(({ field, message }) => ({ field: `row ${row}: ${field}`, message })));
+    throw error;
+  }
+  return { valid, rejected };
+};
+
 // Configure multer for CSV uploads
 const upload = multer({
-  dest: 'uploads/properties/',
+  dest: path.join(config.storage.uploadsDir, 'properties'),
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
   fileFilter: (req, file, cb) => {
     const allowedTypes = /csv/;
@@ -68,7 +115,7 @@ propertiesRouter.get('/', async (req: AuthRequest, res, next) => {
     if (status) filters.status = status as string;
     if (owner_id) filters.owner_id = owner_id as string;
 
-    let properties = await csvStorage.getProperties(filters);
+    let properties = await repository.properties.list(filters);
     
     // Limit to 5 properties for owners
     if (limit) {
@@ -89,79 +136,29 @@ propertiesRouter.get('/', async (req: AuthRequest, res, next) => {
   }
 });
 
-// Get matching properties based on tenant requirements
-propertiesRouter.get('/match', async (req: AuthRequest, res, next) => {
+// Get matching properties based on tenant requirements, best match first
+propertiesRouter.get('/match', requireRole('tenant'), async (req: AuthRequest, res, next) => {
   try {
-    const { city, locality, bedrooms, budget_min, budget_max, amenities } = req.query;
-    
-    const allProperties = await csvStorage.getProperties({ status: 'available' });
-    
-    // Relaxed matching - show properties even if only 1 criteria matches
-    let matchedProperties = allProperties.filter((property: any) => {
-      let matchScore = 0;
-      let totalCriteria = 0;
-      
-      // City match (optional)
-      if (city) {
-        totalCriteria++;
-        if (property.city?.toLowerCase() === (city as string).toLowerCase()) {
-          matchScore++;
-        }
-      }
-      
-      // Locality match (optional)
-      if (locality) {
-        totalCriteria++;
-        const propertyLocality = property.locality?.toLowerCase() || '';
-        const tenantLocalities = (locality as string).toLowerCase().split(',').map((l: string) => l.trim());
-        if (tenantLocalities.some((loc: string) => propertyLocality.includes(loc))) {
-          matchScore++;
-        }
-      }
-      
-      // BHK match (optional)
-      if (bedrooms) {
-        totalCriteria++;
-        if (property.bedrooms === bedrooms) {
-          matchScore++;
-        }
-      }
-      
-      // Budget match (relaxed - within 20% range)
-      if (budget_min || budget_max) {
-        totalCriteria++;
-        const propertyRent = parseFloat(property.rent) || 0;
-        const minBudget = budget_min ? parseFloat(budget_min as string) * 0.8 : 0; // 20% below
-        const maxBudget = budget_max ? parseFloat(budget_max as string) * 1.2 : Infinity; // 20% above
-        
-        if (propertyRent >= minBudget && propertyRent <= maxBudget) {
-          matchScore++;
-        }
-      }
-      
-      // Amenities match (partial - at least one)
-      if (amenities) {
-        totalCriteria++;
-        const propertyAmenities = (property.amenities || '').toLowerCase();
-        const tenantAmenities = (amenities as string).toLowerCase().split(',').map((a: string) => a.trim());
-        const hasMatchingAmenity = tenantAmenities.some((amenity: string) => 
-          propertyAmenities.includes(amenity)
-        );
-        if (hasMatchingAmenity) {
-          matchScore++;
-        }
-      }
-      
-      // Show property if at least 1 criteria matches OR if no criteria specified
-      return totalCriteria === 0 || matchScore >= 1;
-    });
-    
-    // Sort by relevance (you can add scoring logic here)
-    matchedProperties.sort((a: any, b: any) => {
-      const rentA = parseFloat(a.rent) || 0;
-      const rentB = parseFloat(b.rent) || 0;
-      return rentA - rentB; // Sort by rent ascending
-    });
+    const { city, min_score } = req.query;
+    const requirements = matchingService.requirementsFromQuery(req.query);
+
+    let candidates = await repository.properties.list({ status: 'available' });
+    if (city) {
+      candidates = candidates.filter(property => property.city?.toLowerCase() === (city as string).toLowerCase());
+    }
+
+    const ranked = matchingService.rank(requirements, candidates);
+    const minScore = min_score !== undefined ? parseFloat(min_score as string) || 0 : MIN_MATCH_SCORE;
+
+    // With no requirements every property scores 0; show them all rather than none
+    const hasRequirements = ranked.some(match => match.breakdown.length > 0);
+    const matchedProperties = ranked
+      .filter(match => !hasRequirements || match.score >= minScore)
+      .map(({ property, score, breakdown }) => ({
+        ...property,
+        match_score: score,
+        match_breakdown: breakdown
+      }));
     
     res.json({ 
       status: 'success', 
@@ -177,7 +174,7 @@ propertiesRouter.get('/match', async (req: AuthRequest, res, next) => {
 propertiesRouter.get('/:propertyId', async (req: AuthRequest, res, next) => {
   try {
     const { propertyId } = req.params;
-    const property = await csvStorage.getPropertyById(propertyId);
+    const property = await repository.properties.getById(propertyId);
     
     if (!property) {
       throw createError('Property not found', 404);
@@ -193,7 +190,7 @@ propertiesRouter.get('/:propertyId', async (req: AuthRequest, res, next) => {
 propertiesRouter.get('/code/:propertyCode', async (req: AuthRequest, res, next) => {
   try {
     const { propertyCode } = req.params;
-    const property = await csvStorage.getPropertyByCode(propertyCode);
+    const property = await repository.properties.getByCode(propertyCode);
     
     if (!property) {
       throw createError('Property not found', 404);
@@ -206,17 +203,18 @@ propertiesRouter.get('/code/:propertyCode', async (req: AuthRequest, res, next)
 });
 
 // Create property
-propertiesRouter.post('/', async (req: AuthRequest, res, next) => {
+propertiesRouter.post('/', requireRole('owner'), validateBody(propertySchema), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.user!.id;
     const propertyData = {
       ...req.body,
-      owner_id: req.body.owner_id || userId,
+      owner_id: req.user!.user_type === 'admin' ? (req.body.owner_id || userId) : userId,
       owner_name: req.body.owner_name || req.user!.email,
       status: req.body.status || 'available'
     };
 
-    const property = await csvStorage.createProperty(propertyData);
+    const property = await repository.properties.create(propertyData);
+    await generateLeads([property]);
     
     res.status(201).json({ 
       status: 'success', 
@@ -228,16 +226,26 @@ propertiesRouter.post('/', async (req: AuthRequest, res, next) => {
 });
 
 // Update property
-propertiesRouter.put('/:propertyId', async (req: AuthRequest, res, next) => {
+propertiesRouter.put('/:propertyId', requireRole('owner'), validateBody(propertyUpdateSchema), async (req: AuthRequest, res, next) => {
   try {
     const { propertyId } = req.params;
-    const property = await csvStorage.getPropertyById(propertyId);
+    const property = await repository.properties.getById(propertyId);
     
     if (!property) {
       throw createError('Property not found', 404);
     }
+    assertPropertyOwner(req, property);
+
+    // Only admins may transfer a listing to another owner
+    const { owner_id, ...updates } = req.body;
+    if (owner_id !== undefined && req.user!.user_type === 'admin') {
+      updates.owner_id = owner_id;
+    }
 
-    const updatedProperty = await csvStorage.updateProperty(propertyId, req.body);
+    const updatedProperty = await repository.properties.update(propertyId, updates);
+    if (updatedProperty) {
+      await generateLeads([updatedProperty]);
+    }
     
     res.json({ 
       status: 'success', 
@@ -249,16 +257,17 @@ propertiesRouter.put('/:propertyId', async (req: AuthRequest, res, next) => {
 });
 
 // Delete property
-propertiesRouter.delete('/:propertyId', async (req: AuthRequest, res, next) => {
+propertiesRouter.delete('/:propertyId', requireRole('owner'), async (req: AuthRequest, res, next) => {
   try {
     const { propertyId } = req.params;
-    const property = await csvStorage.getPropertyById(propertyId);
+    const property = await repository.properties.getById(propertyId);
     
     if (!property) {
       throw createError('Property not found', 404);
     }
+    assertPropertyOwner(req, property);
 
-    await csvStorage.deleteProperty(propertyId);
+    await repository.properties.delete(propertyId);
     
     res.json({ 
       status: 'success', 
@@ -271,7 +280,7 @@ propertiesRouter.delete('/:propertyId', async (req: AuthRequest, res, next) => {
 
 // Upload properties CSV (appends to master flats.csv)
 // Also supports reading from database/flats.csv
-propertiesRouter.post('/upload', upload.single('file'), async (req: AuthRequest, res, next) => {
+propertiesRouter.post('/upload', requireRole('owner'), upload.single('file'), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.user!.id;
     const file = req.file;
@@ -281,7 +290,7 @@ propertiesRouter.post('/upload', upload.single('file'), async (req: AuthRequest,
 
     if (use_database_file === 'true') {
       // Read from backend/database/flats.csv
-      const databaseFlatsPath = path.join(process.cwd(), 'database', 'flats.csv');
+      const databaseFlatsPath = path.join(config.storage.databaseDir, 'flats.csv');
       
       if (!fs.existsSync(databaseFlatsPath)) {
         throw createError('database/flats.csv file not found', 404);
@@ -353,33 +362,27 @@ propertiesRouter.post('/upload', upload.single('file'), async (req: AuthRequest,
       throw createError('CSV file is required or use_database_file must be true', 400);
     }
 
-    if (properties.length === 0) {
-      throw createError('CSV file is empty or could not be parsed', 400);
-    }
-
-    // Create properties in bulk (this will append to the master CSV)
-    const createdProperties = [];
-    for (const propertyData of properties) {
-      try {
-        const property = await csvStorage.createProperty(propertyData);
-        createdProperties.push(property);
-      } catch (error: any) {
-        console.error('Error creating property:', error);
-        // Continue with other properties
-      }
-    }
-
     // Clean up temp file if uploaded
     if (file) {
       fs.unlinkSync(file.path);
     }
 
+    if (properties.length === 0) {
+      throw createError('CSV file is empty or could not be parsed', 400);
+    }
+    const { valid, rejected } = await validateRows(properties);
+
+    // Create properties in bulk (a single write to the storage backend)
+    const createdProperties = await repository.properties.createMany(valid);
+    await generateLeads(createdProperties);
+
     res.status(201).json({
       status: 'success',
       message: `Successfully uploaded ${createdProperties.length} properties`,
       properties: createdProperties,
       total: createdProperties.length,
-      failed: properties.length - createdProperties.length
+      failed: rejected.length,
+      rejected
     });
   } catch (error) {
     next(error);
@@ -387,10 +390,10 @@ propertiesRouter.post('/upload', upload.single('file'), async (req: AuthRequest,
 });
 
 // Import from backend/database/flats.csv
-propertiesRouter.post('/import-database', async (req: AuthRequest, res, next) => {
+propertiesRouter.post('/import-database', requireRole('owner'), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.user!.id;
-    const databaseFlatsPath = path.join(process.cwd(), 'database', 'flats.csv');
+    const databaseFlatsPath = path.join(config.storage.databaseDir, 'flats.csv');
     
     if (!fs.existsSync(databaseFlatsPath)) {
       throw createError('database/flats.csv file not found', 404);
@@ -431,24 +434,19 @@ propertiesRouter.post('/import-database', async (req: AuthRequest, res, next) =>
     if (properties.length === 0) {
       throw createError('database/flats.csv file is empty or could not be parsed', 400);
     }
+    const { valid, rejected } = await validateRows(properties);
 
     // Create properties in bulk
-    const createdProperties = [];
-    for (const propertyData of properties) {
-      try {
-        const property = await csvStorage.createProperty(propertyData);
-        createdProperties.push(property);
-      } catch (error: any) {
-        console.error('Error creating property:', error);
-      }
-    }
+    const createdProperties = await repository.properties.createMany(valid);
+    await generateLeads(createdProperties);
 
     res.status(201).json({
       status: 'success',
       message: `Successfully imported ${createdProperties.length} properties from database/flats.csv`,
       properties: createdProperties,
       total: createdProperties.length,
-      failed: properties.length - createdProperties.length
+      failed: rejected.length,
+      rejected
     });
   } catch (error) {
     next(error);
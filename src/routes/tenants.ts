@@ -4,15 +4,35 @@
  */
 
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { csvStorage } from '../config/csvStorage';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
 import { createError } from '../middleware/errorHandler';
+import { Tenant } from '../models/types';
+import { validateBody } from '../middleware/validate';
+import { tenantSchema, tenantUpdateSchema } from '../models/schemas';
+import { leadService } from '../services/leads';
+import { complianceService } from '../services/compliance';
 
 export const tenantsRouter = Router();
 tenantsRouter.use(authenticate);
 
+// Lead generation must not fail the save; POST /api/leads/generate catches up later
+const generateLeads = (tenant: Tenant) =>
+  leadService.generateForTenant(tenant).catch(error => console.error('Lead generation failed:', error));
+
+// Tenants may only access their own record (matched by login phone); owners and admins may access any
+const assertTenantAccess = async (req: AuthRequest, tenant: any) => {
+  if (req.user!.user_type !== 'tenant') {
+    return;
+  }
+  const self = req.user!.phone ? await repository.tenants.getByPhone(req.user!.phone) : null;
+  if (!self || self.tenant_id !== tenant.tenant_id) {
+    throw createError('You do not have permission to access this tenant', 403);
+  }
+};
+
 // Get all tenants
-tenantsRouter.get('/', async (req: AuthRequest, res, next) => {
+tenantsRouter.get('/', requireRole('owner'), async (req: AuthRequest, res, next) => {
   try {
     const { phone, city } = req.query;
     
@@ -20,7 +40,7 @@ tenantsRouter.get('/', async (req: AuthRequest, res, next) => {
     if (phone) filters.phone = phone as string;
     if (city) filters.city = city as string;
 
-    const tenants = await csvStorage.getTenants(filters);
+    const tenants = await repository.tenants.list(filters);
     
     res.json({ 
       status: 'success', 
@@ -36,11 +56,12 @@ tenantsRouter.get('/', async (req: AuthRequest, res, next) => {
 tenantsRouter.get('/:tenantId', async (req: AuthRequest, res, next) => {
   try {
     const { tenantId } = req.params;
-    const tenant = await csvStorage.getTenantById(tenantId);
+    const tenant = await repository.tenants.getById(tenantId);
     
     if (!tenant) {
       throw createError('Tenant not found', 404);
     }
+    await assertTenantAccess(req, tenant);
     
     res.json({ status: 'success', tenant });
   } catch (error) {
@@ -49,10 +70,10 @@ tenantsRouter.get('/:tenantId', async (req: AuthRequest, res, next) => {
 });
 
 // Get tenant by phone
-tenantsRouter.get('/phone/:phone', async (req: AuthRequest, res, next) => {
+tenantsRouter.get('/phone/:phone', requireRole('owner'), async (req: AuthRequest, res, next) => {
   try {
     const { phone } = req.params;
-    const tenant = await csvStorage.getTenantByPhone(phone);
+    const tenant = await repository.tenants.getByPhone(phone);
     
     if (!tenant) {
       throw createError('Tenant not found', 404);
@@ -64,57 +85,16 @@ tenantsRouter.get('/phone/:phone', async (req: AuthRequest, res, next) => {
   }
 });
 
-// Create tenant
-tenantsRouter.post('/', async (req: AuthRequest, res, next) => {
+// Create tenant (owners and admins)
+tenantsRouter.post('/', requireRole('owner'), validateBody(tenantSchema), async (req: AuthRequest, res, next) => {
   try {
-    const tenantData = {
-      ...req.body,
-      source: req.body.source || 'app',
-      consent_timestamp: req.body.consent_timestamp || new Date().toISOString(),
-      consent_scope: req.body.consent_scope || 'contact'
-    };
-
-    const tenant = await csvStorage.createTenant(tenantData);
-    
-    // Also append to backend/database/tenants.csv
-    try {
-      const fs = require('fs');
-      const path = require('path');
-      const databaseTenantsPath = path.join(process.cwd(), 'database', 'tenants.csv');
-      
-      // Ensure database directory exists
-      const databaseDir = path.join(process.cwd(), 'database');
-      if (!fs.existsSync(databaseDir)) {
-        fs.mkdirSync(databaseDir, { recursive: true });
-      }
-      
-      // Format: Name, Mobile, Locality, Budget, BHKtype, Must Need amenities, Others
-      const newLine = [
-        tenant.name || '',
-        tenant.phone || '',
-        tenant.localities || '',
-        tenant.budget_max || tenant.budget_min || '',
-        tenant.bedrooms ? `${tenant.bedrooms} BHK` : '',
-        tenant.amenities || '',
-        tenant.preferences ? (JSON.parse(tenant.preferences).others || '') : ''
-      ].map(field => {
-        const fieldStr = String(field || '');
-        // Escape quotes and wrap in quotes
-        return `"${fieldStr.replace(/"/g, '""')}"`;
-      }).join(',');
-      
-      if (fs.existsSync(databaseTenantsPath)) {
-        // Append to existing file
-        fs.appendFileSync(databaseTenantsPath, '\n' + newLine);
-      } else {
-        // Create new file with header
-        const header = 'Name,Mobile,Locality,Budget,BHKtype,Must Need amenities,Others\n';
-        fs.writeFileSync(databaseTenantsPath, header + newLine);
-      }
-    } catch (error) {
-      console.error('Error writing to database/tenants.csv:', error);
-      // Continue even if this fails
-    }
+    const created = await repository.tenants.create({ ...req.body, source: req.body.source || 'app' });
+    // Tenants added through the app consent to contact on every channel; recorded in the compliance audit log
+    const tenant = await complianceService.giveConsent(created, undefined, { id: req.user!.id, type: 'user' }, {
+      source: 'tenant_added',
+      note: 'Given when the tenant was added'
+    });
+    await generateLeads(tenant);
     
     res.status(201).json({ 
       status: 'success', 
@@ -126,16 +106,20 @@ tenantsRouter.post('/', async (req: AuthRequest, res, next) => {
 });
 
 // Update tenant
-tenantsRouter.put('/:tenantId', async (req: AuthRequest, res, next) => {
+tenantsRouter.put('/:tenantId', validateBody(tenantUpdateSchema), async (req: AuthRequest, res, next) => {
   try {
     const { tenantId } = req.params;
-    const tenant = await csvStorage.getTenantById(tenantId);
+    const tenant = await repository.tenants.getById(tenantId);
     
     if (!tenant) {
       throw createError('Tenant not found', 404);
     }
+    await assertTenantAccess(req, tenant);
 
-    const updatedTenant = await csvStorage.updateTenant(tenantId, req.body);
+    const updatedTenant = await repository.tenants.update(tenantId, req.body);
+    if (updatedTenant) {
+      await generateLeads(updatedTenant);
+    }
     
     res.json({ 
       status: 'success', 
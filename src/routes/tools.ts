@@ -1,19 +1,21 @@
 import { Router } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { fileStorage } from '../config/storage';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
 import { createError } from '../middleware/errorHandler';
 import { encrypt } from '../config/encryption';
+import { config } from '../config/env';
 import { google } from 'googleapis';
 
 export const toolsRouter = Router();
 toolsRouter.use(authenticate);
+toolsRouter.use(requireRole('owner'));
 
 // Get connected tools
 toolsRouter.get('/', async (req: AuthRequest, res, next) => {
   try {
     const builderId = req.user!.builderId;
 
-    const integrations = fileStorage.getIntegrations(builderId);
+    const integrations = await repository.integrations.listByBuilder(builderId);
 
     // Don't expose tokens in response
     const safeIntegrations = integrations.map((integration: any) => ({
@@ -41,9 +43,9 @@ toolsRouter.post('/gmail/connect', async (req: AuthRequest, res, next) => {
     }
 
     const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      `${process.env.FRONTEND_URL}/tools/callback`
+      config.google.clientId,
+      config.google.clientSecret,
+      `${config.frontendUrl}/tools/callback`
     );
 
     // Exchange code for tokens
@@ -59,7 +61,7 @@ toolsRouter.post('/gmail/connect', async (req: AuthRequest, res, next) => {
     const encryptedRefreshToken = refresh_token ? encrypt(refresh_token) : null;
 
     // Store integration
-    const integration = fileStorage.upsertIntegration({
+    const integration = await repository.integrations.upsert({
       builder_id: builderId,
       tool_type: 'gmail',
       access_token: encryptedAccessToken,
@@ -85,9 +87,9 @@ toolsRouter.post('/calendar/connect', async (req: AuthRequest, res, next) => {
     }
 
     const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      `${process.env.FRONTEND_URL}/tools/callback`
+      config.google.clientId,
+      config.google.clientSecret,
+      `${config.frontendUrl}/tools/callback`
     );
 
     // Exchange code for tokens
@@ -103,7 +105,7 @@ toolsRouter.post('/calendar/connect', async (req: AuthRequest, res, next) => {
     const encryptedRefreshToken = refresh_token ? encrypt(refresh_token) : null;
 
     // Store integration
-    const integration = fileStorage.upsertIntegration({
+    const integration = await repository.integrations.upsert({
       builder_id: builderId,
       tool_type: 'calendar',
       access_token: encryptedAccessToken,
@@ -124,7 +126,7 @@ toolsRouter.delete('/:toolType', async (req: AuthRequest, res, next) => {
     const { toolType } = req.params;
     const builderId = req.user!.builderId;
 
-    fileStorage.deleteIntegration(builderId, toolType);
+    await repository.integrations.delete(builderId, toolType);
 
     res.json({ status: 'success', message: 'Tool disconnected' });
   } catch (error) {
@@ -146,9 +148,9 @@ toolsRouter.get('/oauth/google', (req: AuthRequest, res, next) => {
       : ['https://www.googleapis.com/auth/calendar.readonly', 'https://www.googleapis.com/auth/calendar.events'];
 
     const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      `${process.env.FRONTEND_URL}/tools/callback`
+      config.google.clientId,
+      config.google.clientSecret,
+      `${config.frontendUrl}/tools/callback`
     );
 
     const authUrl = oauth2Client.generateAuthUrl({
@@ -1,117 +1,91 @@
 /**
  * Webhooks Routes
- * Handles webhook events from DesiVocal agents
+ * Handles webhook events from DesiVocal agents and Ringg calls, and the admin event log
  */
 
-import { Router, Request, Response } from 'express';
-import { csvStorage } from '../config/csvStorage';
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { repository } from '../config/repository';
+import { config } from '../config/env';
+import { createError } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import { verifyWebhookSignature, RawBodyRequest } from '../middleware/webhookSignature';
+import { webhookEventService, hashDeliveryBody } from '../services/webhookEvents';
+import { parseDesiVocalEvent } from '../services/desivocal';
+import { parseRinggEvent } from '../services/ringg';
+import { webhookReplaySchema } from '../models/schemas';
+import { WebhookEventStatus } from '../models/types';
 
 export const webhooksRouter = Router();
 
-// DesiVocal webhook endpoint for call events
-webhooksRouter.post('/desivocal', async (req: Request, res: Response) => {
+/**
+ * Store a signed delivery in the event log and process it. Retries carry the
+ * same delivery ID; without one, an identical body counts as the same delivery.
+ */
+const receiveWebhook = (
+  provider: string,
+  deliveryHeader: string,
+  parse: (event: any) => { eventType: string; callId: string | null }
+) => async (req: RawBodyRequest, res: Response, next: NextFunction) => {
   try {
     const event = req.body;
-    
-    console.log('Received DesiVocal webhook event:', JSON.stringify(event, null, 2));
-    
-    // Handle different event types
-    const eventType = event.type || event.event_type || 'unknown';
-    const callId = event.call_id || event.callId || event.conversation_id || event.conversationId;
-    const phoneNumber = event.phone_number || event.phoneNumber || event.from;
-    const transcript = event.transcript || event.transcription;
-    const direction = event.direction || 'inbound';
-    
-    switch (eventType) {
-      case 'call_started':
-      case 'call_initiated':
-        console.log(`Call started: Call ID ${callId}, Direction: ${direction}`);
-        break;
-        
-      case 'call_answered':
-        console.log(`Call answered: Call ID ${callId}`);
-        if (callId) {
-          const lead = await csvStorage.getLeadById(callId);
-          if (lead) {
-            await csvStorage.updateLead(callId, {
-              status: 'answered',
-              updated_at: new Date().toISOString()
-            });
-          }
-        }
-        break;
-        
-      case 'call_ended':
-      case 'call_completed':
-        console.log(`Call ended: Call ID ${callId}`);
-        if (callId && transcript) {
-          const lead = await csvStorage.getLeadById(callId);
-          if (lead) {
-            await csvStorage.updateLead(callId, {
-              status: 'completed',
-              transcript,
-              call_recording_url: event.recording_url || event.recordingUrl || '',
-              updated_at: new Date().toISOString()
-            });
-          } else {
-            const tenant = await csvStorage.getTenantByPhone(phoneNumber);
-            if (tenant) {
-              await csvStorage.createLead({
-                tenant_id: tenant.tenant_id,
-                channel: 'call',
-                transcript,
-                call_recording_url: event.recording_url || event.recordingUrl || '',
-                status: 'completed',
-                owner_notified: 'false'
-              });
-            }
-          }
-        }
-        break;
-        
-      case 'call_failed':
-      case 'call_no_answer':
-        console.log(`Call failed/no answer: Call ID ${callId}`);
-        if (callId) {
-          const lead = await csvStorage.getLeadById(callId);
-          if (lead) {
-            await csvStorage.updateLead(callId, {
-              status: 'no_answer',
-              updated_at: new Date().toISOString()
-            });
-          }
-        }
-        break;
-        
-      case 'transcript_update':
-        if (callId && transcript) {
-          const lead = await csvStorage.getLeadById(callId);
-          if (lead) {
-            await csvStorage.updateLead(callId, {
-              transcript,
-              updated_at: new Date().toISOString()
-            });
-          }
-        }
-        break;
-        
-      default:
-        console.log(`Unknown event type: ${eventType}`);
+    const { eventType, callId } = parse(event);
+
+    const rawPayload = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(event);
+    const deliveryId = req.get(deliveryHeader) || event.delivery_id || event.event_id
+      || hashDeliveryBody(rawPayload);
+
+    console.log(`Received ${provider} webhook event ${eventType} (delivery ${deliveryId})`);
+
+    const { event: stored, duplicate } = await webhookEventService.ingest(
+      provider,
+      String(deliveryId),
+      event,
+      rawPayload,
+      { event_type: eventType, call_id: callId ? String(callId) : null }
+    );
+
+    if (duplicate) {
+      return res.status(200).json({
+        status: 'success',
+        message: 'Duplicate delivery ignored',
+        event_type: eventType,
+        duplicate: true
+      });
     }
-    
+
+    // A non-2xx response makes the provider retry; the failed event is kept for replay
+    if (stored.status === 'failed') {
+      throw createError('Webhook processing failed', 500);
+    }
+
     res.status(200).json({ 
       status: 'success', 
       message: 'Webhook received',
       event_type: eventType 
     });
-  } catch (error: any) {
-    console.error('Error processing webhook:', error);
-    res.status(200).json({ 
-      status: 'error', 
-      message: error.message 
-    });
+  } catch (error) {
+    next(error);
   }
-});
+};
+
+// DesiVocal webhook endpoint for call events. Deliveries must be signed with DESIVOCAL_WEBHOOK_SECRET
+webhooksRouter.post('/desivocal', verifyWebhookSignature({
+  provider: 'desivocal',
+  secret: config.webhooks.desivocalSecret,
+  secretName: 'DESIVOCAL_WEBHOOK_SECRET',
+  signatureHeader: 'x-desivocal-signature',
+  timestampHeader: 'x-desivocal-timestamp'
+}), receiveWebhook('desivocal', 'x-desivocal-delivery', parseDesiVocalEvent));
+
+// Ringg call-status and transcript callbacks for outbound calls. Signed with RINGG_WEBHOOK_SECRET
+webhooksRouter.post('/ringg', verifyWebhookSignature({
+  provider: 'ringg',
+  secret: config.webhooks.ringgSecret,
+  secretName: 'RINGG_WEBHOOK_SECRET',
+  signatureHeader: 'x-ringg-signature',
+  timestampHeader: 'x-ringg-timestamp'
+}), receiveWebhook('ringg', 'x-ringg-delivery', parseRinggEvent));
 
 // Health check for webhook endpoint
 webhooksRouter.get('/desivocal', (req: Request, res: Response) => {
@@ -121,3 +95,109 @@ webhooksRouter.get('/desivocal', (req: Request, res: Response) => {
     timestamp: new Date().toISOString()
   });
 });
+
+webhooksRouter.get('/ringg', (req: Request, res: Response) => {
+  res.json({ 
+    status: 'ok', 
+    message: 'Ringg webhook endpoint is ready',
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Event log inspection and replay (admin only)
+const adminOnly = [authenticate, requireRole('admin')];
+
+// List stored events, newest first. Filters: provider, status, event_type, call_id, from, to
+webhooksRouter.get('/events', ...adminOnly, async (req: AuthRequest, res, next) => {
+  try {
+    const { provider, status, event_type, call_id, from, to, limit } = req.query;
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && isNaN(Date.parse(value as string))) {
+        throw createError(`${name} must be an ISO 8601 date`, 400);
+      }
+    }
+
+    const events = await repository.webhookEvents.list({
+      provider: provider as string | undefined,
+      status: status as WebhookEventStatus | undefined,
+      event_type: event_type as string | undefined,
+      call_id: call_id as string | undefined,
+      from: from as string | undefined,
+      to: to as string | undefined
+    });
+    const maxResults = Math.min(parseInt(limit as string, 10) || 100, 1000);
+
+    // Payloads are left out of the list; fetch a single event to see them
+    const page = events
+      .reverse()
+      .slice(0, maxResults)
+      .map(({ payload, raw_payload, ...event }) => event);
+
+    res.json({ 
+      status: 'success', 
+      events: page,
+      count: page.length,
+      total: events.length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-run processing for every event received in a time range
+webhooksRouter.post('/events/replay', ...adminOnly, validateBody(webhookReplaySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { from, to, provider, status, event_type } = req.body;
+    if (Date.parse(from) > Date.parse(to)) {
+      throw createError('from must not be after to', 400);
+    }
+
+    const summary = await webhookEventService.replayRange({
+      from,
+      to,
+      provider: provider || undefined,
+      status: status || undefined,
+      event_type: event_type || undefined
+    });
+
+    res.json({ 
+      status: 'success', 
+      ...summary
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get one event with its payload, result and error
+webhooksRouter.get('/events/:eventId', ...adminOnly, async (req: AuthRequest, res, next) => {
+  try {
+    const event = await repository.webhookEvents.getById(req.params.eventId);
+    
+    if (!event) {
+      throw createError('Webhook event not found', 404);
+    }
+    
+    res.json({ 
+      status: 'success', 
+      event 
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-run processing for one event
+webhooksRouter.post('/events/:eventId/replay', ...adminOnly, async (req: AuthRequest, res, next) => {
+  try {
+    const event = await webhookEventService.replay(req.params.eventId);
+    
+    res.json({ 
+      status: 'success', 
+      event,
+      message: event.status === 'processed' ? 'Webhook event reprocessed' : 'Webhook event failed again'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,46 @@
+/**
+ * Copy every collection from the file backend (database/*.csv, data/*.json)
+ * into the SQLite database at SQLITE_PATH, as stored: nothing is defaulted or
+ * re-stamped on the way. Records already present are skipped, so the script
+ * can be re-run safely; legacy spreadsheet rows without IDs get IDs derived
+ * from their content, which are the same on every run.
+ *
+ * Usage: npm run storage:migrate
+ */
+
+import { config } from '../config/env';
+import { COLLECTIONS } from '../config/repository';
+import { createFileBackend } from '../config/storage';
+import { createSqliteBackend } from '../config/sqliteStorage';
+
+const migrate = async () => {
+  const sqlitePath = config.storage.sqlitePath;
+  const source = createFileBackend();
+  const target = createSqliteBackend(sqlitePath);
+
+  console.log(`Migrating file storage into ${sqlitePath}`);
+
+  for (const definition of Object.values(COLLECTIONS)) {
+    const records = await source.collection<any>(definition).list();
+    const targetCollection = target.collection<any>(definition);
+
+    // Identical legacy rows get the same ID; they are copied once
+    const missing = new Map<string, any>();
+    for (const record of records) {
+      const id = record[definition.idField];
+      if (!missing.has(id) && !(await targetCollection.get(id))) {
+        missing.set(id, record);
+      }
+    }
+    await targetCollection.insertMany([...missing.values()]);
+
+    console.log(`  ${definition.name}: ${missing.size} copied, ${records.length - missing.size} already present or repeated`);
+  }
+
+  console.log('Migration complete');
+};
+
+migrate().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
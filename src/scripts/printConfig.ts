@@ -0,0 +1,10 @@
+/**
+ * Print the effective configuration, with secrets redacted. Exits with an
+ * error listing the problems if the configuration is invalid.
+ *
+ * Usage: npm run config:print
+ */
+
+import { config, redactConfig } from '../config/env';
+
+console.log(JSON.stringify(redactConfig(config), null, 2));
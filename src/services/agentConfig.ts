@@ -0,0 +1,205 @@
+/**
+ * Agent Configuration Service
+ * Creates and changes ElevenLabs agents from our API: prompt, first message,
+ * voice, language, knowledge base and tools are pushed to ElevenLabs, and
+ * every configuration pushed is kept as a numbered version that can be
+ * rolled back to. Edits made in the ElevenLabs dashboard are recorded as an
+ * 'imported' version before our next change, so they are never lost.
+ */
+
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { Agent, AgentConfigVersion, AgentConfiguration, KNOWLEDGE_BASE_TYPES, KnowledgeBaseType } from '../models/types';
+import { elevenLabsService } from './elevenlabs';
+
+export interface AgentConfigState {
+  // The newest version we have, or null before the agent is first changed through us
+  latest: AgentConfigVersion | null;
+  // The configuration ElevenLabs has now
+  live: AgentConfiguration;
+  // False when the agent was edited outside our API since the latest version
+  in_sync: boolean;
+}
+
+// Configuration changes run one at a time so each agent's versions are numbered in order
+let configQueue: Promise<unknown> = Promise.resolve();
+
+const exclusive = <R>(fn: () => Promise<R>): Promise<R> => {
+  const run = configQueue.catch(() => undefined).then(fn);
+  configQueue = run.catch(() => undefined);
+  return run;
+};
+
+// ElevenLabs failures surface as 502s; our own errors pass through
+const elevenLabsError = (error: any) =>
+  error?.statusCode ? error : createError(`ElevenLabs: ${error?.message || error}`, 502);
+
+// Fields in a fixed order, so configurations compare equal however they were written
+const canonical = (config: AgentConfiguration): AgentConfiguration => ({
+  name: config.name,
+  system_prompt: config.system_prompt,
+  first_message: config.first_message,
+  voice_id: config.voice_id,
+  language: config.language,
+  knowledge_base: config.knowledge_base.map(({ id, name, type }) => ({ id, name, type })),
+  tool_ids: [...config.tool_ids]
+});
+
+// Our configuration as the ElevenLabs create/update body
+const toElevenLabs = (config: AgentConfiguration) => ({
+  name: config.name,
+  conversationConfig: {
+    agent: {
+      firstMessage: config.first_message,
+      language: config.language,
+      prompt: {
+        prompt: config.system_prompt,
+        knowledgeBase: config.knowledge_base,
+        toolIds: config.tool_ids
+      }
+    },
+    tts: {
+      ...(config.voice_id && { voiceId: config.voice_id })
+    }
+  }
+});
+
+// The parts of an ElevenLabs agent we manage; the SDK reports camelCase fields
+export const fromElevenLabs = (agent: any): AgentConfiguration => {
+  const conversation = agent.conversationConfig || agent.conversation_config || {};
+  const agentConfig = conversation.agent || {};
+  const prompt = agentConfig.prompt || {};
+  const knowledgeBase: any[] = prompt.knowledgeBase || prompt.knowledge_base || [];
+  return canonical({
+    name: agent.name || '',
+    system_prompt: prompt.prompt || '',
+    first_message: agentConfig.firstMessage ?? agentConfig.first_message ?? '',
+    voice_id: conversation.tts?.voiceId ?? conversation.tts?.voice_id ?? '',
+    language: agentConfig.language || 'en',
+    knowledge_base: knowledgeBase.map(document => ({
+      id: String(document.id),
+      name: String(document.name || ''),
+      type: (KNOWLEDGE_BASE_TYPES as readonly string[]).includes(document.type) ? document.type as KnowledgeBaseType : 'file'
+    })),
+    tool_ids: prompt.toolIds || prompt.tool_ids || []
+  });
+};
+
+const sameConfig = (a: AgentConfiguration, b: AgentConfiguration): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const liveConfig = async (agentId: string): Promise<AgentConfiguration> => {
+  try {
+    return fromElevenLabs(await elevenLabsService.getAgent(agentId));
+  } catch (error) {
+    throw elevenLabsError(error);
+  }
+};
+
+const saveVersion = async (agentId: string, fields: Omit<AgentConfigVersion, 'id' | 'agent_id' | 'version' | 'created_at'>): Promise<AgentConfigVersion> => {
+  const latest = await repository.agentConfigVersions.getLatest(agentId);
+  return repository.agentConfigVersions.create({ agent_id: agentId, version: (latest?.version || 0) + 1, ...fields });
+};
+
+/**
+ * Record the live configuration as an imported version when it differs from
+ * our latest one (or we have none yet); returns the live configuration.
+ */
+const importDrift = async (agentId: string): Promise<AgentConfiguration> => {
+  const live = await liveConfig(agentId);
+  const latest = await repository.agentConfigVersions.getLatest(agentId);
+  if (!latest || !sameConfig(latest.config, live)) {
+    await saveVersion(agentId, {
+      config: live,
+      source: 'imported',
+      restored_version: null,
+      note: latest ? 'Changed outside our API' : 'Configuration before it was first managed here',
+      created_by: null
+    });
+  }
+  return live;
+};
+
+export const agentConfigService = {
+  async state(agentId: string): Promise<AgentConfigState> {
+    const live = await liveConfig(agentId);
+    const latest = await repository.agentConfigVersions.getLatest(agentId);
+    return { latest, live, in_sync: !!latest && sameConfig(latest.config, live) };
+  },
+
+  /**
+   * Create an ElevenLabs agent from a full configuration, add it to the
+   * builder's agents and save it as version 1.
+   */
+  async create(fields: AgentConfiguration, builderId: string, userId: string, settings: Pick<Agent, 'agent_type' | 'telephony_provider' | 'from_number'>): Promise<{ agent: Agent; version: AgentConfigVersion }> {
+    const config = canonical(fields);
+    let agentId: string;
+    try {
+      agentId = (await elevenLabsService.createAgent(toElevenLabs(config))).agent_id;
+    } catch (error) {
+      throw elevenLabsError(error);
+    }
+    if (!agentId) {
+      throw createError('ElevenLabs did not return an agent ID', 502);
+    }
+
+    let agent: Agent;
+    try {
+      agent = await repository.agents.create({
+        builder_id: builderId,
+        eleven_agent_id: agentId,
+        name: config.name,
+        tone: 'friendly',
+        personality: null,
+        ...settings,
+        config_managed: true
+      });
+    } catch (error) {
+      // Without our record nobody could manage the new agent; remove it rather than leave it orphaned
+      await elevenLabsService.deleteAgent(agentId)
+        .catch(deleteError => console.error(`ElevenLabs agent ${agentId} was created but could not be removed:`, deleteError));
+      throw error;
+    }
+    const version = await saveVersion(agentId, { config, source: 'created', restored_version: null, note: '', created_by: userId });
+    return { agent, version };
+  },
+
+  /**
+   * Apply changes on top of the agent's live configuration and push it.
+   * Returns the new version, or the latest one if nothing changed.
+   */
+  async update(agentId: string, changes: Partial<AgentConfiguration>, userId: string, note = ''): Promise<AgentConfigVersion> {
+    return exclusive(async () => {
+      const live = await importDrift(agentId);
+      const config = canonical({ ...live, ...changes });
+      if (sameConfig(config, live)) {
+        return (await repository.agentConfigVersions.getLatest(agentId))!;
+      }
+
+      try {
+        await elevenLabsService.updateAgent(agentId, toElevenLabs(config));
+      } catch (error) {
+        throw elevenLabsError(error);
+      }
+      return saveVersion(agentId, { config, source: 'updated', restored_version: null, note, created_by: userId });
+    });
+  },
+
+  // Push an earlier version's configuration again, saved as a new version
+  async rollback(agentId: string, version: number, userId: string, note = ''): Promise<AgentConfigVersion> {
+    return exclusive(async () => {
+      const target = await repository.agentConfigVersions.getByVersion(agentId, version);
+      if (!target) {
+        throw createError(`Version ${version} not found`, 404);
+      }
+      await importDrift(agentId);
+
+      try {
+        await elevenLabsService.updateAgent(agentId, toElevenLabs(target.config));
+      } catch (error) {
+        throw elevenLabsError(error);
+      }
+      return saveVersion(agentId, { config: target.config, source: 'rollback', restored_version: version, note, created_by: userId });
+    });
+  }
+};
@@ -0,0 +1,229 @@
+/**
+ * Call Service
+ * Keeps call records in step with provider events: provider statuses are
+ * mapped to an outcome and timestamps, and each call updates its lead.
+ */
+
+import { repository } from '../config/repository';
+import { leadService, LeadActor } from './leads';
+import { complianceService } from './compliance';
+import { recordingService } from './recordings';
+import { Call, CallOutcome, Lead, LeadStatus, TranscriptTurn } from '../models/types';
+import { mergeTurns, parseTurns, redactText, renderTranscript } from '../utils/transcript';
+import { createRecordQueue } from '../utils/recordQueue';
+
+// Provider statuses meaning the call was picked up
+const ANSWERED_STATUSES = ['answered', 'in_progress', 'ongoing'];
+
+// Provider statuses that end a call, and how it ended
+const FINAL_STATUSES: Record<string, Exclude<CallOutcome, 'pending'>> = {
+  completed: 'completed',
+  ended: 'completed',
+  no_answer: 'no_answer',
+  not_picked: 'no_answer',
+  busy: 'busy',
+  failed: 'failed',
+  unreachable: 'failed',
+  cancelled: 'failed',
+  rejected: 'failed'
+};
+
+export interface CallUpdate {
+  status?: string;
+  // When the provider reported the status; defaults to now
+  at?: string;
+  // The whole transcript so far; replaces the stored one
+  transcript?: string | TranscriptTurn[];
+  // Turns streamed during the call; merged into the stored transcript
+  transcript_update?: TranscriptTurn[];
+  recording_url?: string;
+  duration_seconds?: number | null;
+  // Provider details; merged into the stored ones
+  metadata?: Record<string, any>;
+}
+
+// "In Progress", "in-progress" and "IN_PROGRESS" are the same status
+export const normalizeCallStatus = (value: any): string =>
+  String(value || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// The tenant's side of a call: who we called, or who called us
+export const tenantNumber = (call: Call): string =>
+  call.direction === 'outbound' ? call.to_number : call.from_number;
+
+export interface TranscriptSearchResult {
+  call: Call;
+  // How many times the search terms occur
+  score: number;
+  // The turns containing a search term, with their position in the transcript
+  matches: (TranscriptTurn & { index: number })[];
+}
+
+const secondsBetween = (from: string, to: string): number =>
+  Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 1000));
+
+// Updates to one call run one at a time, so streamed transcript turns are never lost
+const callQueue = createRecordQueue();
+
+export const callService = {
+  // Find the record for a provider call, creating it on the first event
+  async start(callData: Partial<Call> & Pick<Call, 'provider' | 'provider_call_id' | 'direction'>): Promise<Call> {
+    const existing = await repository.calls.getByProviderCallId(callData.provider, callData.provider_call_id);
+    if (!existing) {
+      return repository.calls.create(callData);
+    }
+
+    // Fill in links that were not known when the call was first seen
+    const links: Partial<Call> = {};
+    if (!existing.tenant_id && callData.tenant_id) links.tenant_id = callData.tenant_id;
+    if (!existing.lead_id && callData.lead_id) links.lead_id = callData.lead_id;
+    return Object.keys(links).length > 0 ? (await repository.calls.update(existing.id, links))! : existing;
+  },
+
+  /**
+   * Apply a provider status and any transcript or recording to a call.
+   * The first final status sets the outcome and end time; later ones only
+   * update the reported status. Transcripts are stored as turns and checked
+   * for opt-out requests; the recording is archived once the call has ended.
+   */
+  async applyUpdate(call: Call, update: CallUpdate): Promise<Call> {
+    return callQueue(call.id, async () => {
+      // The call as stored now; the caller's copy may predate an update that ran first
+      const current = (await repository.calls.getById(call.id)) || call;
+      const at = update.at || new Date().toISOString();
+      const status = normalizeCallStatus(update.status);
+      const changes: Partial<Call> = {};
+
+      if (status) {
+        changes.status = status;
+        if (ANSWERED_STATUSES.includes(status) && !current.answered_at) {
+          changes.answered_at = at;
+        }
+        const outcome = FINAL_STATUSES[status];
+        if (outcome && current.outcome === 'pending') {
+          changes.outcome = outcome;
+          changes.ended_at = at;
+        }
+      }
+
+      const turns = await callService.updatedTurns(current, update);
+      if (turns) changes.transcript = renderTranscript(turns);
+      // Once archived (or deleted), the recording link is ours; later provider links are ignored
+      if (update.recording_url && !current.recording_id) changes.recording_url = update.recording_url;
+
+      if (update.metadata) {
+        const metadata = { ...current.metadata, ...update.metadata };
+        if (JSON.stringify(metadata) !== JSON.stringify(current.metadata)) changes.metadata = metadata;
+      }
+
+      const answeredAt = changes.answered_at || current.answered_at;
+      const endedAt = changes.ended_at || current.ended_at;
+      if (update.duration_seconds != null && Number.isFinite(update.duration_seconds)) {
+        changes.duration_seconds = update.duration_seconds;
+      } else if (current.duration_seconds == null && answeredAt && endedAt) {
+        changes.duration_seconds = secondsBetween(answeredAt, endedAt);
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return current;
+      }
+
+      const updated = (await repository.calls.update(call.id, changes))!;
+      if (turns) {
+        await repository.callTranscripts.save(call.id, turns);
+        await complianceService.flagTranscript(tenantNumber(updated), updated.transcript, updated.id);
+      }
+      if (updated.outcome !== 'pending' && !updated.recording_id) {
+        recordingService.archive(updated).catch(error => console.error(`Call ${updated.id}: recording archive failed:`, error));
+      }
+      return updated;
+    });
+  },
+
+  // The call's transcript with the update applied, or null if it does not change
+  async updatedTurns(call: Call, update: CallUpdate): Promise<TranscriptTurn[] | null> {
+    const full = parseTurns(update.transcript);
+    const streamed = update.transcript_update || [];
+    if (full.length === 0 && streamed.length === 0) return null;
+
+    const turns = full.length > 0 ? full : mergeTurns(await callService.transcriptTurns(call), streamed);
+    return renderTranscript(turns) === call.transcript ? null : turns;
+  },
+
+  // Stored turns; calls from before turns were stored are read from their text
+  async transcriptTurns(call: Call): Promise<TranscriptTurn[]> {
+    const stored = await repository.callTranscripts.getByCall(call.id);
+    return stored ? stored.turns : parseTurns(call.transcript);
+  },
+
+  /**
+   * Calls whose transcript contains every word of the query, most matches
+   * first. With redact set, phone numbers, emails and IDs are hidden and
+   * cannot be searched for.
+   */
+  async search(query: string, options: { redact: boolean; limit: number; builder_id?: string }): Promise<TranscriptSearchResult[]> {
+    const terms = [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+    const occurrences = (text: string) => terms.reduce((count, term) => count + text.split(term).length - 1, 0);
+
+    const results: TranscriptSearchResult[] = [];
+    for (const call of await repository.calls.list({ builder_id: options.builder_id })) {
+      if (!call.transcript) continue;
+      const turns = (await callService.transcriptTurns(call))
+        .map((turn, index) => ({ ...turn, index, text: options.redact ? redactText(turn.text) : turn.text }));
+      const text = turns.map(turn => turn.text.toLowerCase()).join('\n');
+      if (!terms.every(term => text.includes(term))) continue;
+
+      results.push({
+        call: { ...call, transcript: options.redact ? redactText(call.transcript) : call.transcript },
+        score: occurrences(text),
+        matches: turns.filter(turn => terms.some(term => turn.text.toLowerCase().includes(term)))
+      });
+    }
+
+    // Calls are listed newest first, and the sort keeps that order for equal scores
+    return results.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  },
+
+  /**
+   * Give a call that has no builder the one it belongs to: the builder of
+   * its agent, or else the owner of its lead's property. Calls routed by the
+   * dialled number already have the line's builder.
+   */
+  async assignBuilder(call: Call): Promise<Call> {
+    if (call.builder_id) return call;
+
+    const builders = call.agent_id
+      ? [...new Set((await repository.agents.listAll()).filter(agent => agent.eleven_agent_id === call.agent_id).map(agent => agent.builder_id))]
+      : [];
+    let builderId = builders.length === 1 ? builders[0] : '';
+    if (!builderId && call.lead_id) {
+      const lead = await repository.leads.getById(call.lead_id);
+      const property = lead?.property_id ? await repository.properties.getById(lead.property_id) : null;
+      builderId = property?.owner_id || lead?.routed_owner_id || '';
+    }
+    return builderId ? (await repository.calls.update(call.id, { builder_id: builderId }))! : call;
+  },
+
+  // Lead status a call implies: reached once answered or completed, not reachable if it never connected
+  leadStatusFor(call: Call): LeadStatus | null {
+    if (call.answered_at || call.outcome === 'completed') return 'contacted';
+    if (call.outcome !== 'pending') return 'not_reachable';
+    return null;
+  },
+
+  // Copy the call's transcript and recording to its lead and move the lead forward if allowed
+  async syncLead(call: Call, actor: LeadActor, reason: string): Promise<void> {
+    const lead = call.lead_id ? await repository.leads.getById(call.lead_id) : null;
+    if (!lead) return;
+
+    const leadUpdates: Partial<Lead> = {
+      ...(call.transcript && call.transcript !== lead.transcript && { transcript: call.transcript }),
+      ...(call.recording_url && call.recording_url !== lead.call_recording_url && { call_recording_url: call.recording_url })
+    };
+    const toStatus = callService.leadStatusFor(call);
+    if (toStatus) {
+      await leadService.advance(lead, toStatus, actor, reason, leadUpdates);
+    } else if (Object.keys(leadUpdates).length > 0) {
+      await repository.leads.update(lead.lead_id, leadUpdates);
+    }
+  }
+};
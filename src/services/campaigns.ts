@@ -0,0 +1,314 @@
+/**
+ * Campaign Service
+ * Outbound calling campaigns. A campaign's contacts are chosen when it is
+ * created (a tenant segment or an uploaded dataset) and stored as its dialing
+ * queue. A runner ticks every CAMPAIGN_TICK_SECONDS: within the calling window
+ * it dials due contacts up to the campaign's concurrency, and it records each
+ * call's outcome once the provider reports it, scheduling retries per the
+ * campaign's retry policy. Contacts without consent to calls are skipped.
+ */
+
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { Call, Campaign, CampaignContact, CampaignSegment, CampaignStatus, Tenant } from '../models/types';
+import { telephonyService } from './telephony';
+import { complianceService } from './compliance';
+import { normalizePhone, toE164 } from '../utils/phone';
+import { splitList } from '../utils/listing';
+import { readDatasetRows } from '../utils/spreadsheet';
+import { config } from '../config/env';
+
+const CAMPAIGN_TICK_MS = config.campaigns.tickSeconds * 1000;
+// A call with no reported outcome after this long counts as a failed attempt
+const CAMPAIGN_CALL_TIMEOUT_MS = config.campaigns.callTimeoutMinutes * 60 * 1000;
+
+// Allowed status changes for each campaign action
+const CAMPAIGN_ACTIONS: Record<'start' | 'pause' | 'resume' | 'cancel', { from: CampaignStatus[]; to: CampaignStatus }> = {
+  start: { from: ['draft'], to: 'running' },
+  pause: { from: ['running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'running' },
+  cancel: { from: ['draft', 'running', 'paused'], to: 'cancelled' }
+};
+
+export type CampaignAction = keyof typeof CAMPAIGN_ACTIONS;
+
+export type CampaignInput = Omit<Campaign, 'id' | 'status' | 'started_at' | 'finished_at' | 'created_at' | 'updated_at'>;
+
+type ContactInput = Pick<CampaignContact, 'tenant_id' | 'name' | 'phone'>;
+
+// "HH:MM" wall-clock time in the given time zone
+const localTime = (timezone: string, date: Date): string =>
+  new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date);
+
+// Windows may run past midnight (e.g. 20:00-02:00)
+export const withinCallingHours = (campaign: Pick<Campaign, 'calling_start' | 'calling_end' | 'timezone'>, date = new Date()): boolean => {
+  const now = localTime(campaign.timezone, date);
+  const { calling_start: start, calling_end: end } = campaign;
+  return start <= end
+    ? now >= start && now < end
+    : now >= start || now < end;
+};
+
+const inSegment = (tenant: Tenant, segment: CampaignSegment): boolean => {
+  if (segment.city && tenant.city.trim().toLowerCase() !== segment.city.trim().toLowerCase()) {
+    return false;
+  }
+  if (segment.localities) {
+    const wanted = splitList(segment.localities).map(l => l.toLowerCase());
+    const tenantLocalities = splitList(tenant.localities).map(l => l.toLowerCase());
+    if (!tenantLocalities.some(locality => wanted.includes(locality))) return false;
+  }
+  // Budgets match when the tenant's range overlaps the segment's
+  const tenantMin = parseFloat(tenant.budget_min) || 0;
+  const tenantMax = parseFloat(tenant.budget_max) || Infinity;
+  if (segment.budget_min != null && tenantMax < segment.budget_min) return false;
+  if (segment.budget_max != null && tenantMin > segment.budget_max) return false;
+  if (segment.bedrooms != null && parseInt(tenant.bedrooms, 10) !== segment.bedrooms) return false;
+  return true;
+};
+
+// Dataset columns vary; take the first header that looks like a name or a phone number
+const pickColumn = (row: Record<string, any>, pattern: RegExp): string => {
+  const key = Object.keys(row).find(header => pattern.test(header.trim().toLowerCase()));
+  return key ? String(row[key] ?? '').trim() : '';
+};
+
+const contactsFromSegment = async (segment: CampaignSegment): Promise<ContactInput[]> =>
+  (await repository.tenants.list())
+    .filter(tenant => tenant.phone && inSegment(tenant, segment))
+    .map(tenant => ({ tenant_id: tenant.tenant_id, name: tenant.name, phone: tenant.phone }));
+
+const contactsFromDataset = async (datasetId: string, builderId: string): Promise<ContactInput[]> => {
+  const dataset = await repository.datasets.getById(datasetId, builderId);
+  if (!dataset) {
+    throw createError('Dataset not found', 404);
+  }
+
+  const contacts: ContactInput[] = [];
+  for (const row of await readDatasetRows(dataset)) {
+    const phone = pickColumn(row, /^(phone|mobile|phone_number|mobile_number|contact|number)$/);
+    if (!phone) continue;
+    // Link rows to known tenants so calls show up on their records
+    const tenant = await repository.tenants.getByPhone(phone);
+    contacts.push({
+      tenant_id: tenant?.tenant_id || '',
+      name: pickColumn(row, /^(name|full_name|tenant_name)$/) || tenant?.name || '',
+      phone
+    });
+  }
+  return contacts;
+};
+
+// One contact per number
+const dedupeContacts = (contacts: ContactInput[]): ContactInput[] => {
+  const seen = new Set<string>();
+  return contacts.filter(contact => {
+    const key = normalizePhone(contact.phone);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Place the call with the campaign's provider and return its call record
+const placeCall = (campaign: Campaign, contact: CampaignContact, toNumber: string): Promise<Call> =>
+  telephonyService.placeCall(telephonyService.get(campaign.provider), {
+    to_number: toNumber,
+    agent_id: campaign.agent_id,
+    name: contact.name || undefined,
+    ...(campaign.from_number && { from_number: campaign.from_number })
+  }, { tenant_id: contact.tenant_id, initiated_by: campaign.created_by, builder_id: campaign.builder_id });
+
+// After an attempt that did not reach the tenant: retry later, or give up
+const retryOrFail = (campaign: Campaign, attempts: number): Partial<CampaignContact> =>
+  attempts < campaign.max_attempts
+    ? { status: 'pending', next_attempt_at: new Date(Date.now() + campaign.retry_delay_minutes * 60 * 1000).toISOString() }
+    : { status: 'failed' };
+
+const dialContact = async (campaign: Campaign, contact: CampaignContact): Promise<void> => {
+  const attempts = contact.attempts + 1;
+  const toNumber = toE164(contact.phone);
+  if (!toNumber) {
+    await repository.campaignContacts.update(contact.id, { status: 'failed', last_error: 'Invalid phone number' });
+    return;
+  }
+
+  // Consent can change after the campaign was created, so it is checked on every attempt
+  const decision = await complianceService.checkContact({
+    phone: toNumber,
+    channel: 'call',
+    context: `campaign:${campaign.id}`,
+    actor: { id: campaign.created_by, type: 'user' },
+    tenant: contact.tenant_id ? await repository.tenants.getById(contact.tenant_id) : null
+  });
+  if (!decision.allowed) {
+    await repository.campaignContacts.update(contact.id, { status: 'skipped', last_error: decision.reason });
+    return;
+  }
+
+  try {
+    const call = await placeCall(campaign, contact, toNumber);
+    await repository.campaignContacts.update(contact.id, {
+      status: 'in_call',
+      attempts,
+      last_call_id: call.id,
+      outcome: 'pending',
+      last_error: null
+    });
+  } catch (error: any) {
+    console.error(`Campaign ${campaign.id}: dialing contact ${contact.id} failed:`, error);
+    await repository.campaignContacts.update(contact.id, {
+      ...retryOrFail(campaign, attempts),
+      attempts,
+      outcome: 'failed',
+      last_error: error?.message || String(error)
+    });
+  }
+};
+
+// Record the outcome of a contact's call once the provider has reported it
+const settleContact = async (campaign: Campaign, contact: CampaignContact): Promise<boolean> => {
+  const call = contact.last_call_id ? await repository.calls.getById(contact.last_call_id) : null;
+  const timedOut = !call || Date.now() - Date.parse(call.started_at) > CAMPAIGN_CALL_TIMEOUT_MS;
+  if (call && call.outcome === 'pending' && !timedOut) {
+    return false;
+  }
+
+  const outcome = call && call.outcome !== 'pending' ? call.outcome : 'failed';
+  const next: Partial<CampaignContact> = outcome === 'completed'
+    ? { status: 'completed' }
+    : campaign.status === 'cancelled' ? { status: 'cancelled' } : retryOrFail(campaign, contact.attempts);
+  await repository.campaignContacts.update(contact.id, {
+    ...next,
+    outcome,
+    last_error: call && call.outcome !== 'pending' ? null : 'No call outcome reported'
+  });
+  return true;
+};
+
+// Settle finished calls; returns how many are still in progress
+const settleCalls = async (campaign: Campaign): Promise<number> => {
+  let inCall = 0;
+  for (const contact of await repository.campaignContacts.listByCampaign(campaign.id, 'in_call')) {
+    if (!(await settleContact(campaign, contact))) inCall++;
+  }
+  return inCall;
+};
+
+const runCampaign = async (campaign: Campaign): Promise<void> => {
+  const inCall = await settleCalls(campaign);
+
+  const pending = await repository.campaignContacts.listByCampaign(campaign.id, 'pending');
+  if (pending.length === 0 && inCall === 0) {
+    await repository.campaigns.update(campaign.id, { status: 'completed', finished_at: new Date().toISOString() });
+    console.log(`Campaign ${campaign.id} completed`);
+    return;
+  }
+
+  if (!withinCallingHours(campaign)) return;
+
+  const now = Date.now();
+  const due = pending.filter(contact => Date.parse(contact.next_attempt_at) <= now);
+  for (const contact of due.slice(0, Math.max(0, campaign.concurrency - inCall))) {
+    // Stop dialing as soon as the campaign is paused or cancelled
+    const current = await repository.campaigns.getById(campaign.id);
+    if (current?.status !== 'running') return;
+    await dialContact(campaign, contact);
+  }
+};
+
+// Cancelled campaigns keep settling calls that were in progress until those would have timed out
+const stillSettling = (campaign: Campaign): boolean =>
+  campaign.status === 'paused' || (campaign.status === 'cancelled' && !!campaign.finished_at
+    && Date.now() - Date.parse(campaign.finished_at) <= CAMPAIGN_CALL_TIMEOUT_MS + 2 * CAMPAIGN_TICK_MS);
+
+let ticking = false;
+
+export const campaignService = {
+  /**
+   * Create a draft campaign with its contacts. Contacts are fixed at creation,
+   * so later tenant changes do not alter who is called.
+   */
+  async create(input: CampaignInput): Promise<{ campaign: Campaign; contacts: number }> {
+    const contacts = dedupeContacts(input.dataset_id
+      ? await contactsFromDataset(input.dataset_id, input.builder_id)
+      : await contactsFromSegment(input.segment || {}));
+    if (contacts.length === 0) {
+      throw createError('No contacts match this campaign', 400);
+    }
+
+    const campaign = await repository.campaigns.create(input);
+    await repository.campaignContacts.createMany(campaign.id, contacts);
+    return { campaign, contacts: contacts.length };
+  },
+
+  // Contact counts by status and by call outcome
+  async summarize(campaign: Campaign) {
+    const contacts = await repository.campaignContacts.listByCampaign(campaign.id);
+    const byStatus: Record<string, number> = {};
+    const byOutcome: Record<string, number> = {};
+    for (const contact of contacts) {
+      byStatus[contact.status] = (byStatus[contact.status] || 0) + 1;
+      if (contact.outcome) byOutcome[contact.outcome] = (byOutcome[contact.outcome] || 0) + 1;
+    }
+    return {
+      total: contacts.length,
+      by_status: byStatus,
+      by_outcome: byOutcome,
+      within_calling_hours: withinCallingHours(campaign)
+    };
+  },
+
+  // Start, pause, resume or cancel. Cancelling stops queued contacts; calls in progress still record their outcome
+  async apply(campaign: Campaign, action: CampaignAction): Promise<Campaign> {
+    const { from, to } = CAMPAIGN_ACTIONS[action];
+    if (!from.includes(campaign.status)) {
+      throw createError(`Cannot ${action} a ${campaign.status} campaign`, 409);
+    }
+
+    const updates: Partial<Campaign> = { status: to };
+    if (action === 'start') updates.started_at = new Date().toISOString();
+    if (action === 'cancel') {
+      updates.finished_at = new Date().toISOString();
+      for (const contact of await repository.campaignContacts.listByCampaign(campaign.id, 'pending')) {
+        await repository.campaignContacts.update(contact.id, { status: 'cancelled' });
+      }
+    }
+
+    const updated = await repository.campaigns.update(campaign.id, updates);
+    if (to === 'running') {
+      // Dial right away rather than waiting for the next tick
+      campaignService.tick().catch(error => console.error('Campaign run failed:', error));
+    }
+    return updated!;
+  },
+
+  // One pass over every active campaign; overlapping ticks are skipped
+  async tick(): Promise<void> {
+    if (ticking) return;
+    ticking = true;
+    try {
+      for (const campaign of await repository.campaigns.list()) {
+        try {
+          if (campaign.status === 'running') {
+            await runCampaign(campaign);
+          } else if (stillSettling(campaign)) {
+            await settleCalls(campaign);
+          }
+        } catch (error) {
+          console.error(`Campaign ${campaign.id} run failed:`, error);
+        }
+      }
+    } finally {
+      ticking = false;
+    }
+  },
+
+  scheduleRunner(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      campaignService.tick().catch(error => console.error('Campaign run failed:', error));
+    }, CAMPAIGN_TICK_MS);
+    timer.unref();
+    return timer;
+  }
+};
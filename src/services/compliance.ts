@@ -0,0 +1,252 @@
+/**
+ * Compliance Service
+ * Decides whether a tenant may be contacted on a channel, under the
+ * telemarketing rules we follow: never contact a number on the do-not-call
+ * (DNC) registry, and only contact tenants whose recorded consent covers the
+ * channel. Every decision and every consent or DNC change is written to the
+ * compliance audit log.
+ */
+
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { CONTACT_CHANNELS, ContactChannel, ComplianceAuditEntry, DncEntry, DncReason, Tenant } from '../models/types';
+import { normalizePhone, toE164 } from '../utils/phone';
+import { splitList } from '../utils/listing';
+import { callerLines } from '../utils/transcript';
+import { config } from '../config/env';
+
+export interface ComplianceActor {
+  id: string;
+  type: ComplianceAuditEntry['actor_type'];
+}
+
+export const SYSTEM_COMPLIANCE_ACTOR: ComplianceActor = { id: 'system', type: 'system' };
+
+export interface ContactCheck {
+  phone: string;
+  channel: ContactChannel;
+  // What the contact is for, e.g. "outbound_call" or "campaign:<id>"
+  context: string;
+  actor: ComplianceActor;
+  // Pass when already known; otherwise the tenant is looked up by number
+  tenant?: Tenant | null;
+}
+
+export interface ContactDecision {
+  allowed: boolean;
+  reason: string;
+  tenant: Tenant | null;
+}
+
+// Consent older than this many days no longer counts; unset means consent does not expire
+const CONSENT_MAX_AGE_DAYS = config.compliance.consentMaxAgeDays;
+
+// Phrases a tenant uses to ask not to be called again (English and Hinglish)
+const OPT_OUT_PATTERNS = [
+  /\b(do not|don'?t|dont|never) (call|contact|phone|ring)\b/i,
+  /\bstop (calling|contacting|messaging)\b/i,
+  /\bremove my (number|name|details)\b/i,
+  /\b(unsubscribe|opt out|opt-out)\b/i,
+  /\b(call|phone) mat (karo|karna|kijiye)\b/i,
+  /\bdobara (call|phone) mat\b/i
+];
+
+// Registry key: E.164 where possible so different spellings of a number match
+export const phoneKey = (phone: string): string => toE164(phone) || normalizePhone(phone);
+
+const findTenantByPhone = async (phone: string): Promise<Tenant | null> => {
+  const key = phoneKey(phone);
+  if (!key) return null;
+  const tenants = await repository.tenants.list();
+  return tenants.find(tenant =>
+    (tenant.phone && phoneKey(tenant.phone) === key) || (tenant.whatsapp_number && phoneKey(tenant.whatsapp_number) === key)
+  ) || null;
+};
+
+// Scopes that cover every channel; "contact" is what tenants were given before consent was per channel
+const ALL_CHANNEL_SCOPES = ['all', 'contact'];
+
+// Channels the tenant's consent covers
+export const consentedChannels = (tenant: Tenant): ContactChannel[] => {
+  const scope = splitList(tenant.consent_scope || '').map(channel => channel.toLowerCase());
+  return scope.some(channel => ALL_CHANNEL_SCOPES.includes(channel))
+    ? [...CONTACT_CHANNELS]
+    : CONTACT_CHANNELS.filter(channel => scope.includes(channel));
+};
+
+// Why the tenant's consent does not cover the channel, or null if it does
+const consentProblem = (tenant: Tenant | null, channel: ContactChannel): string | null => {
+  if (!tenant) return 'No consent on record for this number';
+
+  const consentedAt = Date.parse(tenant.consent_timestamp || '');
+  if (isNaN(consentedAt) || consentedAt > Date.now()) return 'No consent on record for this tenant';
+  if (CONSENT_MAX_AGE_DAYS > 0 && Date.now() - consentedAt > CONSENT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000) {
+    return `Consent is older than ${CONSENT_MAX_AGE_DAYS} days`;
+  }
+  if (!consentedChannels(tenant).includes(channel)) return `Consent does not cover ${channel}`;
+  return null;
+};
+
+const audit = (entry: Omit<ComplianceAuditEntry, 'id' | 'created_at' | 'actor_id' | 'actor_type'>, actor: ComplianceActor) =>
+  repository.complianceAudit.append({ ...entry, actor_id: actor.id, actor_type: actor.type });
+
+export const complianceService = {
+  // Check a number before contacting it and record the decision
+  async checkContact(options: ContactCheck): Promise<ContactDecision> {
+    const { phone, channel, context, actor } = options;
+    const tenant = options.tenant ?? await findTenantByPhone(phone);
+
+    const dncEntry = await repository.dnc.getActiveByPhone(phoneKey(phone));
+    const reason = dncEntry
+      ? `Number is on the do-not-call list (${dncEntry.reason})`
+      : consentProblem(tenant, channel);
+
+    const decision: ContactDecision = { allowed: !reason, reason: reason || 'Consent covers this channel', tenant };
+    await audit({
+      action: decision.allowed ? 'contact_allowed' : 'contact_refused',
+      phone: phoneKey(phone),
+      tenant_id: tenant?.tenant_id || null,
+      channel,
+      reason: decision.reason,
+      context
+    }, actor);
+    return decision;
+  },
+
+  // Same as checkContact, but throws 403 when contact is not allowed
+  async assertCanContact(options: ContactCheck): Promise<ContactDecision> {
+    const decision = await complianceService.checkContact(options);
+    if (!decision.allowed) {
+      throw createError(`Contact refused: ${decision.reason}`, 403);
+    }
+    return decision;
+  },
+
+  // Add a number to the registry; a number already listed keeps its existing entry
+  async addToDnc(phone: string, reason: DncReason, actor: ComplianceActor, details: { source?: string; note?: string } = {}): Promise<DncEntry> {
+    const key = phoneKey(phone);
+    if (!key) {
+      throw createError('Invalid phone number', 400);
+    }
+
+    const existing = await repository.dnc.getActiveByPhone(key);
+    if (existing) return existing;
+
+    const entry = await repository.dnc.create({
+      phone: key,
+      reason,
+      source: details.source || null,
+      note: details.note || null,
+      added_by: actor.id
+    });
+    const tenant = await findTenantByPhone(key);
+    await audit({
+      action: 'dnc_added',
+      phone: key,
+      tenant_id: tenant?.tenant_id || null,
+      channel: null,
+      reason: details.note ? `${reason}: ${details.note}` : reason,
+      context: details.source || null
+    }, actor);
+    return entry;
+  },
+
+  async removeFromDnc(entryId: string, actor: ComplianceActor, note?: string): Promise<DncEntry> {
+    const entry = await repository.dnc.getById(entryId);
+    if (!entry || entry.removed_at) {
+      throw createError('DNC entry not found', 404);
+    }
+
+    const removed = await repository.dnc.update(entryId, { removed_at: new Date().toISOString(), removed_by: actor.id });
+    await audit({
+      action: 'dnc_removed',
+      phone: entry.phone,
+      tenant_id: null,
+      channel: null,
+      reason: note || null,
+      context: entryId
+    }, actor);
+    return removed!;
+  },
+
+  /**
+   * Record a tenant's consent to the given channels (all channels if none are
+   * given), on top of what they already consented to. The consent timestamp
+   * becomes now. A number on the DNC list stays on it until an admin removes it.
+   */
+  async giveConsent(tenant: Tenant, channels: ContactChannel[] | undefined, actor: ComplianceActor, details: { source?: string; note?: string } = {}): Promise<Tenant> {
+    const given = channels && channels.length > 0 ? channels : [...CONTACT_CHANNELS];
+    const scope = CONTACT_CHANNELS.filter(channel => given.includes(channel) || consentedChannels(tenant).includes(channel));
+
+    const updated = await repository.tenants.update(tenant.tenant_id, {
+      consent_scope: scope.join(', '),
+      consent_timestamp: new Date().toISOString()
+    });
+    await audit({
+      action: 'consent_given',
+      phone: phoneKey(tenant.phone),
+      tenant_id: tenant.tenant_id,
+      channel: null,
+      reason: `Gave ${given.join(', ')}${details.note ? `: ${details.note}` : ''}`,
+      context: details.source || null
+    }, actor);
+    return updated!;
+  },
+
+  /**
+   * Withdraw a tenant's consent for the given channels (all channels if none
+   * are given). Withdrawing consent to calls also puts the number on the DNC list.
+   */
+  async withdrawConsent(tenant: Tenant, channels: ContactChannel[] | undefined, actor: ComplianceActor, note?: string): Promise<Tenant> {
+    const withdrawn = channels && channels.length > 0 ? channels : [...CONTACT_CHANNELS];
+    const remaining = consentedChannels(tenant).filter(channel => !withdrawn.includes(channel));
+
+    const updated = await repository.tenants.update(tenant.tenant_id, { consent_scope: remaining.join(', ') });
+    await audit({
+      action: 'consent_withdrawn',
+      phone: phoneKey(tenant.phone),
+      tenant_id: tenant.tenant_id,
+      channel: null,
+      reason: `Withdrew ${withdrawn.join(', ')}${note ? `: ${note}` : ''}`,
+      context: null
+    }, actor);
+
+    if (withdrawn.includes('call') && tenant.phone) {
+      await complianceService.addToDnc(tenant.phone, 'opt_out', actor, { note: 'Consent to calls withdrawn' });
+    }
+    return updated!;
+  },
+
+  // Record that a call recording was deleted, on request or when its retention period ended
+  async recordRecordingDeleted(phone: string, callId: string, reason: string, actor: ComplianceActor): Promise<void> {
+    const tenant = phone ? await findTenantByPhone(phone) : null;
+    await audit({
+      action: 'recording_deleted',
+      phone: phone ? phoneKey(phone) : '',
+      tenant_id: tenant?.tenant_id || null,
+      channel: 'call',
+      reason,
+      context: callId
+    }, actor);
+  },
+
+  // The tenant-spoken phrase asking not to be called, if the transcript has one
+  findOptOut(transcript: string): string | null {
+    // Only the caller can opt out; the agent's lines never count
+    for (const line of callerLines(transcript)) {
+      for (const pattern of OPT_OUT_PATTERNS) {
+        const match = line.match(pattern);
+        if (match) return match[0];
+      }
+    }
+    return null;
+  },
+
+  // Put the caller's number on the DNC list when they asked not to be called
+  async flagTranscript(phone: string, transcript: string, callId: string): Promise<DncEntry | null> {
+    const phrase = phone && transcript ? complianceService.findOptOut(transcript) : null;
+    if (!phrase) return null;
+    console.log(`Call ${callId}: opt-out phrase "${phrase}", adding ${phone} to the DNC list`);
+    return complianceService.addToDnc(phone, 'transcript', SYSTEM_COMPLIANCE_ACTOR, { source: callId, note: `Said "${phrase}"` });
+  }
+};
@@ -0,0 +1,226 @@
+/**
+ * Conversation Sync
+ * ElevenLabs sends us no call events, so its conversations are pulled into
+ * call records instead: each configured agent's conversations are listed
+ * oldest first from where its last sync got to, and stored with their
+ * transcript, duration and details, linked to the tenant whose number it was.
+ * Runs every ELEVENLABS_SYNC_MINUTES and on request.
+ */
+
+import { repository } from '../config/repository';
+import { config } from '../config/env';
+import { createError } from '../middleware/errorHandler';
+import { Agent, CallDirection } from '../models/types';
+import { elevenLabsService } from './elevenlabs';
+import { elevenLabsCallUpdate } from './telephony';
+import { callService, normalizeCallStatus } from './calls';
+import { transcriptAnalysisService } from './transcriptAnalysis';
+import { phoneRoutingService } from './phoneRouting';
+import { LeadActor } from './leads';
+
+const PAGE_SIZE = 100;
+const DAY_SECONDS = 24 * 60 * 60;
+const SYNC_INTERVAL_MS = config.elevenlabs.syncMinutes * 60 * 1000;
+const SYNC_ACTOR: LeadActor = { id: 'elevenlabs', type: 'webhook' };
+
+// Conversation statuses that do not change afterwards
+const SETTLED_STATUSES = ['done', 'failed'];
+
+// A conversation still unsettled a day after it started is stuck; it stops holding back the position
+const STUCK_AFTER_SECONDS = DAY_SECONDS;
+
+export interface ConversationSyncResult {
+  agents: number;
+  // Conversations listed, and the calls created or updated from them
+  listed: number;
+  created: number;
+  updated: number;
+  failed: { agent_id: string; error: string }[];
+}
+
+let running: Promise<ConversationSyncResult> | null = null;
+
+const startedAt = (conversation: any): number | null => {
+  const started = conversation.metadata?.start_time_unix_secs ?? conversation.metadata?.startTimeUnixSecs
+    ?? conversation.start_time_unix_secs ?? conversation.startTimeUnixSecs;
+  return started != null && Number.isFinite(Number(started)) ? Number(started) : null;
+};
+
+// Who was on each end; conversations from the web widget have no numbers
+const callParties = (conversation: any): { direction: CallDirection; from_number: string; to_number: string } => {
+  const phoneCall = conversation.metadata?.phone_call || conversation.metadata?.phoneCall || {};
+  const agentNumber = phoneCall.agent_number || phoneCall.agentNumber || '';
+  const externalNumber = phoneCall.external_number || phoneCall.externalNumber || '';
+  return (phoneCall.direction || conversation.direction) === 'outbound'
+    ? { direction: 'outbound', from_number: agentNumber, to_number: externalNumber }
+    : { direction: 'inbound', from_number: externalNumber, to_number: agentNumber };
+};
+
+// What we keep of ElevenLabs' own details about the conversation
+const conversationMetadata = (conversation: any): Record<string, any> => {
+  const metadata = conversation.metadata || {};
+  const analysis = conversation.analysis || {};
+  return {
+    conversation_status: normalizeCallStatus(conversation.status),
+    termination_reason: metadata.termination_reason ?? metadata.terminationReason ?? null,
+    main_language: metadata.main_language ?? metadata.mainLanguage ?? null,
+    cost: metadata.cost ?? null,
+    call_successful: analysis.call_successful ?? analysis.callSuccessful ?? null,
+    summary: analysis.transcript_summary ?? analysis.transcriptSummary ?? null
+  };
+};
+
+/**
+ * Store one listed conversation as a call. Conversations already stored in
+ * a settled status are skipped without fetching them again.
+ */
+const syncConversation = async (summary: any, agent: Agent): Promise<'created' | 'updated' | 'skipped'> => {
+  const existing = await repository.calls.getByProviderCallId('elevenlabs', summary.conversation_id);
+  const status = normalizeCallStatus(summary.status);
+  if (existing && SETTLED_STATUSES.includes(status) && existing.metadata?.conversation_status === status) {
+    return 'skipped';
+  }
+
+  const conversation = await elevenLabsService.getConversation(summary.conversation_id);
+  const parties = callParties(conversation);
+  const tenantPhone = parties.direction === 'outbound' ? parties.to_number : parties.from_number;
+  const tenant = tenantPhone ? await repository.tenants.getByPhone(tenantPhone) : null;
+  const started = startedAt(conversation) ?? startedAt(summary);
+
+  let call = await callService.start({
+    provider: 'elevenlabs',
+    provider_call_id: summary.conversation_id,
+    ...parties,
+    agent_id: agent.eleven_agent_id,
+    tenant_id: tenant?.tenant_id || '',
+    builder_id: agent.builder_id,
+    ...(started != null && { started_at: new Date(started * 1000).toISOString() })
+  });
+  call = await callService.applyUpdate(call, { ...elevenLabsCallUpdate(conversation), metadata: conversationMetadata(conversation) });
+
+  // ElevenLabs finishes the transcript by the time a conversation is done
+  if (normalizeCallStatus(conversation.status) === 'done' && call.transcript) {
+    call = (await transcriptAnalysisService.analyzeCall(call, { actor: SYNC_ACTOR })).call;
+  }
+  call = await phoneRoutingService.routeCall(call, SYNC_ACTOR);
+  await callService.syncLead(call, SYNC_ACTOR, `ElevenLabs call ${call.status}`);
+  return existing ? 'updated' : 'created';
+};
+
+/**
+ * Sync one agent's conversations since its saved position. The position only
+ * moves past conversations that are settled or stuck, so one still in
+ * progress is listed again next time; it is saved after each page.
+ */
+const syncAgent = async (agent: Agent, result: ConversationSyncResult): Promise<void> => {
+  const agentId = agent.eleven_agent_id;
+  const state = await repository.conversationSync.getByAgent(agentId);
+  const from = state?.synced_until_unix || Math.floor(Date.now() / 1000) - config.elevenlabs.syncLookbackDays * DAY_SECONDS;
+
+  let newestSettled = from;
+  let oldestUnsettled: number | null = null;
+  let synced = state?.conversations_synced || 0;
+  let cursor: string | undefined;
+  do {
+    // One second earlier, so conversations that started in the same second as the position are not missed
+    const page = await elevenLabsService.getConversations({
+      agent_id: agentId,
+      cursor,
+      page_size: PAGE_SIZE,
+      started_after: from - 1,
+      oldest_first: true
+    });
+
+    for (const summary of page.conversations) {
+      result.listed++;
+      const outcome = await syncConversation(summary, agent);
+      if (outcome !== 'skipped') {
+        result[outcome]++;
+        synced++;
+      }
+
+      const started = startedAt(summary);
+      if (started == null) continue;
+      if (SETTLED_STATUSES.includes(normalizeCallStatus(summary.status))) {
+        newestSettled = Math.max(newestSettled, started);
+      } else if (Date.now() / 1000 - started > STUCK_AFTER_SECONDS) {
+        console.warn(`Conversation ${summary.conversation_id} is still "${summary.status}" a day after it started; no longer re-synced`);
+        newestSettled = Math.max(newestSettled, started);
+      } else {
+        oldestUnsettled = Math.min(oldestUnsettled ?? started, started);
+      }
+    }
+
+    await repository.conversationSync.save(agentId, {
+      synced_until_unix: Math.min(newestSettled, oldestUnsettled ?? newestSettled),
+      conversations_synced: synced
+    });
+    cursor = page.has_more && page.next_cursor ? page.next_cursor : undefined;
+  } while (cursor);
+
+  await repository.conversationSync.save(agentId, { last_synced_at: new Date().toISOString(), last_error: null });
+};
+
+const run = async (agentId?: string): Promise<ConversationSyncResult> => {
+  // Several builders may add the same ElevenLabs agent; it is synced once
+  const agents = new Map<string, Agent>();
+  for (const agent of await repository.agents.listAll()) {
+    if (agent.eleven_agent_id && !agents.has(agent.eleven_agent_id)) agents.set(agent.eleven_agent_id, agent);
+  }
+  if (agentId && !agents.has(agentId)) {
+    throw createError(`Agent ${agentId} not found`, 404);
+  }
+
+  const toSync = agentId ? [agents.get(agentId)!] : [...agents.values()];
+  const result: ConversationSyncResult = { agents: toSync.length, listed: 0, created: 0, updated: 0, failed: [] };
+  for (const agent of toSync) {
+    try {
+      await syncAgent(agent, result);
+    } catch (error: any) {
+      // One agent failing does not stop the others; its position is kept for the next run
+      console.error(`Conversation sync for agent ${agent.eleven_agent_id} failed:`, error);
+      result.failed.push({ agent_id: agent.eleven_agent_id, error: error.message });
+      await repository.conversationSync.save(agent.eleven_agent_id, { last_error: error.message });
+    }
+  }
+  return result;
+};
+
+export const conversationSyncService = {
+  isRunning(): boolean {
+    return running !== null;
+  },
+
+  /**
+   * Pull new and changed conversations for every configured agent, or only
+   * for agentId. Only one sync runs at a time.
+   */
+  async sync(agentId?: string): Promise<ConversationSyncResult> {
+    if (!config.elevenlabs.apiKey) {
+      throw createError('ElevenLabs is not configured: ELEVENLABS_API_KEY is not set', 503);
+    }
+    if (running) {
+      throw createError('A conversation sync is already running', 409);
+    }
+
+    running = run(agentId);
+    try {
+      return await running;
+    } finally {
+      running = null;
+    }
+  },
+
+  // Sync on an interval; off when ElevenLabs is not configured or ELEVENLABS_SYNC_MINUTES is 0
+  scheduleSync(): NodeJS.Timeout | null {
+    if (!config.elevenlabs.apiKey || SYNC_INTERVAL_MS === 0) return null;
+    const timer = setInterval(() => {
+      if (running) return;
+      conversationSyncService.sync()
+        .then(({ created, updated }) => (created > 0 || updated > 0) && console.log(`Conversation sync: ${created} new calls, ${updated} updated`))
+        .catch(error => console.error('Conversation sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+};
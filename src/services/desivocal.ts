@@ -0,0 +1,107 @@
+/**
+ * DesiVocal Service
+ * Applies DesiVocal call events to call records and their leads. Runs for
+ * live webhook deliveries and again when a stored event is replayed.
+ */
+
+import { repository } from '../config/repository';
+import { leadService, LeadActor } from './leads';
+import { callService } from './calls';
+import { transcriptAnalysisService } from './transcriptAnalysis';
+import { phoneRoutingService } from './phoneRouting';
+import { CallDirection } from '../models/types';
+import { parseTurns } from '../utils/transcript';
+
+const DESIVOCAL_ACTOR: LeadActor = { id: 'desivocal', type: 'webhook' };
+
+// Fields we index webhook events by
+export const parseDesiVocalEvent = (event: any) => ({
+  eventType: String(event.type || event.event_type || 'unknown'),
+  callId: event.call_id || event.callId || event.conversation_id || event.conversationId || null
+});
+
+// Call status each DesiVocal event reports
+const EVENT_STATUSES: Record<string, string> = {
+  call_started: 'initiated',
+  call_initiated: 'initiated',
+  call_answered: 'answered',
+  call_ended: 'completed',
+  call_completed: 'completed',
+  call_failed: 'failed',
+  call_no_answer: 'no_answer'
+};
+
+export const processDesiVocalEvent = async (event: any): Promise<{ event_type: string; call_id?: string }> => {
+  const { eventType, callId } = parseDesiVocalEvent(event);
+  const phoneNumber = event.phone_number || event.phoneNumber || event.from;
+  // The transcript so far, or for transcript_update events the new turns; a single turn may be the event itself
+  const transcript = parseTurns(event.transcript || event.transcription || (event.text ? [event] : null));
+  const recordingUrl = event.recording_url || event.recordingUrl || '';
+  const direction: CallDirection = event.direction === 'outbound' ? 'outbound' : 'inbound';
+
+  if (!callId) {
+    console.log(`DesiVocal ${eventType} event without a call ID`);
+    return { event_type: eventType };
+  }
+  if (eventType !== 'transcript_update' && !EVENT_STATUSES[eventType]) {
+    console.log(`Unknown event type: ${eventType}`);
+    return { event_type: eventType };
+  }
+
+  // DesiVocal calls placed for a lead use the lead ID as their call ID
+  const lead = await repository.leads.getById(callId);
+  let tenant = lead
+    ? await repository.tenants.getById(lead.tenant_id)
+    : await repository.tenants.getByPhone(phoneNumber);
+
+  let call = await callService.start({
+    provider: 'desivocal',
+    provider_call_id: callId,
+    direction,
+    from_number: direction === 'inbound' ? phoneNumber || '' : event.to || '',
+    to_number: direction === 'inbound' ? event.to || '' : phoneNumber || '',
+    agent_id: event.agent_id || event.agentId || '',
+    tenant_id: tenant?.tenant_id || '',
+    lead_id: lead?.lead_id || ''
+  });
+  call = await callService.applyUpdate(call, {
+    status: EVENT_STATUSES[eventType],
+    at: event.timestamp || undefined,
+    ...(eventType === 'transcript_update' ? { transcript_update: transcript } : { transcript }),
+    recording_url: recordingUrl,
+    duration_seconds: event.duration != null ? Number(event.duration) : null
+  });
+  console.log(`DesiVocal ${eventType}: call ${call.id} (${callId}), direction ${direction}`);
+
+  // Read the caller's requirements into their tenant record, creating one for a new caller,
+  // and link the property they asked about
+  const analysis = eventType === 'call_ended' && call.transcript
+    ? await transcriptAnalysisService.analyzeCall(call, { callerName: event.customer_name || event.caller_name, actor: DESIVOCAL_ACTOR })
+    : null;
+  if (analysis) {
+    call = analysis.call;
+    tenant = tenant || analysis.tenant;
+  }
+  // The number the caller dialled decides the agent, and the property or owner their lead goes to
+  call = await phoneRoutingService.routeCall(call, DESIVOCAL_ACTOR);
+
+  // A completed call from a known tenant without a lead starts one
+  if (!call.lead_id && call.outcome === 'completed' && call.transcript && tenant) {
+    const created = await leadService.create({
+      tenant_id: tenant.tenant_id,
+      channel: 'call',
+      transcript: call.transcript,
+      nlp_extracted: analysis ? JSON.stringify(analysis.requirements) : '',
+      call_recording_url: recordingUrl,
+      status: 'contacted',
+      owner_notified: 'false'
+    }, DESIVOCAL_ACTOR, 'Created from completed call');
+    call = (await repository.calls.update(call.id, { lead_id: created.lead_id }))!;
+  } else {
+    await callService.syncLead(call, DESIVOCAL_ACTOR, `DesiVocal ${eventType.replace(/_/g, ' ')}`);
+  }
+  // Owners only see their builder's calls, so every call needs one
+  call = await callService.assignBuilder(call);
+
+  return { event_type: eventType, call_id: call.id };
+};
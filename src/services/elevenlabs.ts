@@ -1,15 +1,12 @@
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
+import { config } from '../config/env';
 
-// Lazy-load API key and create client to ensure dotenv has loaded
 const getClient = (): ElevenLabsClient => {
-  const apiKey = process.env.ELEVENLABS_API_KEY;
+  const apiKey = config.elevenlabs.apiKey;
   if (!apiKey) {
     throw new Error('ELEVENLABS_API_KEY is required. Please check your backend/.env file.');
   }
-  
-  // Use US endpoint by default (can be overridden via env variable)
-  const baseUrl = process.env.ELEVENLABS_API_BASE_URL || 'https://api.us.elevenlabs.io';
-  
+
   return new ElevenLabsClient({
     apiKey: apiKey,
     environment: 'https://api.elevenlabs.io'
@@ -126,16 +123,27 @@ export const elevenLabsService = {
   },
 
   // Create agent
-  async createAgent(agentData: Partial<ElevenLabsAgent>): Promise<ElevenLabsAgent> {
+  async createAgent(agentData: Record<string, any>): Promise<{ agent_id: string }> {
     try {
       const client = getClient();
       const response = await client.conversationalAi.agents.create(agentData as any);
-      return response as any;
+      return { agent_id: response.agentId };
     } catch (error: any) {
       throw new Error(`Failed to create agent: ${error.message}`);
     }
   },
 
+  // Update agent; fields left out keep their current values
+  async updateAgent(agentId: string, agentData: Record<string, any>): Promise<ElevenLabsAgent> {
+    try {
+      const client = getClient();
+      const response = await client.conversationalAi.agents.update(agentId, agentData);
+      return response as any;
+    } catch (error: any) {
+      throw new Error(`Failed to update agent: ${error.message}`);
+    }
+  },
+
   // Delete agent
   async deleteAgent(agentId: string): Promise<void> {
     try {
@@ -146,45 +154,34 @@ export const elevenLabsService = {
     }
   },
 
-  // Get conversations list from ElevenLabs
-  async getConversations(params?: {
+  // One page of conversations, optionally for one agent and started after a time
+  async getConversations(params: {
     agent_id?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<any[]> {
+    cursor?: string;
+    page_size?: number;
+    // Unix seconds
+    started_after?: number;
+    // Oldest first instead of newest first
+    oldest_first?: boolean;
+  } = {}): Promise<{ conversations: any[]; next_cursor: string | null; has_more: boolean }> {
     try {
       const client = getClient();
-      const response = await client.conversationalAi.conversations.list(params as any);
-      
-      console.log('ElevenLabs conversations response:', JSON.stringify(response, null, 2));
-      
-      // Handle different response structures
-      let conversations: any[] = [];
-      if (Array.isArray(response)) {
-        conversations = response;
-      } else if (response && typeof response === 'object') {
-        if (Array.isArray((response as any).conversations)) {
-          conversations = (response as any).conversations;
-        } else if (Array.isArray((response as any).data)) {
-          conversations = (response as any).data;
-        } else if ((response as any).items && Array.isArray((response as any).items)) {
-          conversations = (response as any).items;
-        } else {
-          conversations = [response];
-        }
-      }
-      
-      // Normalize conversation_id field
-      conversations = conversations.map((conv: any) => {
-        const conversationId = conv.conversation_id || conv.id || conv.conversationId;
-        return {
-          ...conv,
-          conversation_id: conversationId
-        };
+      const response = await client.conversationalAi.conversations.list({
+        ...(params.agent_id && { agentId: params.agent_id }),
+        ...(params.cursor && { cursor: params.cursor }),
+        ...(params.page_size && { pageSize: params.page_size }),
+        ...(params.started_after != null && { callStartAfterUnix: params.started_after }),
+        ...(params.oldest_first && { sortDirection: 'asc' as const })
       });
-      
-      console.log(`Returning ${conversations.length} conversations`);
-      return conversations;
+
+      // Normalize conversation_id field
+      const conversations = (response.conversations || []).map((conv: any) => ({
+        ...conv,
+        conversation_id: conv.conversation_id || conv.id || conv.conversationId
+      }));
+
+      console.log(`Returning ${conversations.length} conversations${response.hasMore ? ' (more available)' : ''}`);
+      return { conversations, next_cursor: response.nextCursor || null, has_more: !!response.hasMore };
     } catch (error: any) {
       console.error('Error fetching conversations from ElevenLabs:', error);
       throw new Error(`Failed to fetch conversations: ${error.message}`);
@@ -0,0 +1,386 @@
+/**
+ * Lead Service
+ * Turns tenant–property matches into stored lead records and moves leads
+ * through their lifecycle.
+ * There is at most one lead per tenant+property pair; regenerating refreshes
+ * its score but never touches status or owner_user_id.
+ * Every status change goes through changeStatus() so it is checked against
+ * LEAD_TRANSITIONS and recorded in the lead's history.
+ * Claims are exclusive and lapse after LEAD_CLAIM_TTL_HOURS unless the
+ * claiming owner acts on the lead, which restarts the window.
+ */
+
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { Lead, LeadHistoryEntry, LeadStatus, Property, Tenant } from '../models/types';
+import { matchingService, MIN_MATCH_SCORE } from './matching';
+import { config } from '../config/env';
+import { createRecordQueue } from '../utils/recordQueue';
+
+// Allowed next states for each state. closed_won is final; a lost lead can be reopened
+export const LEAD_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  new: ['contacted', 'not_reachable', 'interested', 'closed_lost'],
+  not_reachable: ['contacted', 'interested', 'closed_lost'],
+  contacted: ['interested', 'not_reachable', 'closed_lost'],
+  interested: ['visit_scheduled', 'negotiating', 'closed_lost'],
+  visit_scheduled: ['interested', 'negotiating', 'closed_won', 'closed_lost'],
+  negotiating: ['visit_scheduled', 'closed_won', 'closed_lost'],
+  closed_won: [],
+  closed_lost: ['contacted']
+};
+
+// Statuses written before the lifecycle existed
+const LEGACY_STATUSES: Record<string, LeadStatus> = {
+  claimed: 'new',
+  answered: 'contacted',
+  completed: 'contacted',
+  no_answer: 'not_reachable'
+};
+
+const CLAIM_TTL_MS = config.leads.claimTtlHours * 60 * 60 * 1000;
+const CLAIM_SWEEP_INTERVAL_MS = config.leads.claimSweepMinutes * 60 * 1000;
+
+export interface LeadActor {
+  id: string;
+  type: LeadHistoryEntry['changed_by_type'];
+  admin?: boolean;
+}
+
+export const SYSTEM_ACTOR: LeadActor = { id: 'system', type: 'system' };
+
+export interface LeadGenerationResult {
+  created: number;
+  updated: number;
+}
+
+const pairKey = (tenantId: string, propertyId: string) => `${tenantId}:${propertyId}`;
+
+// Generation and claims run one at a time so two requests cannot create the
+// same pair twice or both win a claim. Never nest exclusive() calls.
+let leadQueue: Promise<unknown> = Promise.resolve();
+
+const exclusive = <R>(fn: () => Promise<R>): Promise<R> => {
+  const run = leadQueue.catch(() => undefined).then(fn);
+  leadQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Status changes to one lead run one at a time, each checked against the lead as stored
+const statusQueue = createRecordQueue();
+
+const claimExpiry = () => new Date(Date.now() + CLAIM_TTL_MS).toISOString();
+
+const CLEARED_CLAIM: Partial<Lead> = { owner_user_id: '', claimed_at: '', claim_expires_at: '' };
+
+const getLeadOrThrow = async (leadId: string): Promise<Lead> => {
+  const lead = await repository.leads.getById(leadId);
+  if (!lead) {
+    throw createError('Lead not found', 404);
+  }
+  return lead;
+};
+
+// Clear a lapsed claim and record it; returns the lead as it is now
+const releaseIfExpired = async (lead: Lead): Promise<Lead> => {
+  if (!lead.owner_user_id || leadService.claimHolder(lead)) return lead;
+  const updated = await repository.leads.update(lead.lead_id, CLEARED_CLAIM);
+  await leadService.recordEvent(lead, 'claim_expired', SYSTEM_ACTOR, `Claim by ${lead.owner_user_id} expired without follow-up`);
+  return updated!;
+};
+
+const generate = (tenants: Tenant[], properties: Property[]): Promise<LeadGenerationResult> => exclusive(async () => {
+  const result: LeadGenerationResult = { created: 0, updated: 0 };
+  const available = properties.filter(property => property.status === 'available');
+  if (tenants.length === 0 || available.length === 0) return result;
+
+  const existing = new Map<string, Lead>();
+  for (const lead of await repository.leads.list()) {
+    if (lead.tenant_id && lead.property_id) {
+      existing.set(pairKey(lead.tenant_id, lead.property_id), lead);
+    }
+  }
+
+  for (const tenant of tenants) {
+    const requirements = matchingService.requirementsFromTenant(tenant);
+
+    for (const match of matchingService.rank(requirements, available)) {
+      if (match.score < MIN_MATCH_SCORE) break;
+
+      const { property } = match;
+      const matchScore = match.score.toString();
+      const matchBreakdown = JSON.stringify(match.breakdown);
+      const lead = existing.get(pairKey(tenant.tenant_id, property.property_id));
+
+      if (!lead) {
+        const created = await leadService.create({
+          tenant_id: tenant.tenant_id,
+          property_id: property.property_id,
+          property_code: property.property_code,
+          channel: tenant.source || 'match',
+          match_score: matchScore,
+          match_breakdown: matchBreakdown
+        }, SYSTEM_ACTOR, `Matched ${property.property_code || property.property_id} with score ${matchScore}`);
+        existing.set(pairKey(tenant.tenant_id, property.property_id), created);
+        result.created++;
+      } else if (lead.match_score !== matchScore || lead.match_breakdown !== matchBreakdown) {
+        await repository.leads.update(lead.lead_id, {
+          match_score: matchScore,
+          match_breakdown: matchBreakdown
+        });
+        result.updated++;
+      }
+    }
+  }
+
+  return result;
+});
+
+// changeStatus() without the queue; call only from inside statusQueue work for the lead
+const applyStatus = async (lead: Lead, toStatus: LeadStatus, actor: LeadActor, reason?: string, updates: Partial<Lead> = {}): Promise<Lead> => {
+  const fromStatus = leadService.statusOf(lead);
+  if (fromStatus === toStatus) {
+    return Object.keys(updates).length > 0
+      ? (await repository.leads.update(lead.lead_id, updates))!
+      : lead;
+  }
+
+  if (!leadService.canTransition(fromStatus, toStatus)) {
+    const allowed = LEAD_TRANSITIONS[fromStatus];
+    throw createError(
+      `Cannot move lead from "${fromStatus}" to "${toStatus}". ` +
+      (allowed.length > 0 ? `Allowed: ${allowed.join(', ')}` : `"${fromStatus}" is final`),
+      409
+    );
+  }
+
+  const updated = await repository.leads.update(lead.lead_id, { ...updates, status: toStatus });
+  await repository.leadHistory.append({
+    lead_id: lead.lead_id,
+    action: 'status_changed',
+    from_status: fromStatus,
+    to_status: toStatus,
+    changed_by: actor.id,
+    changed_by_type: actor.type,
+    reason: reason || null
+  });
+  return updated!;
+};
+
+export const leadService = {
+  // Current lifecycle state, mapping statuses from before the lifecycle existed
+  statusOf(lead: Lead): LeadStatus {
+    return LEGACY_STATUSES[lead.status] || (lead.status as LeadStatus) || 'new';
+  },
+
+  canTransition(from: LeadStatus, to: LeadStatus): boolean {
+    return (LEAD_TRANSITIONS[from] || []).includes(to);
+  },
+
+  // Create a lead and record it as the first history entry
+  async create(leadData: Partial<Lead>, actor: LeadActor, reason?: string): Promise<Lead> {
+    const lead = await repository.leads.create({ ...leadData, status: leadData.status || 'new' });
+    await repository.leadHistory.append({
+      lead_id: lead.lead_id,
+      action: 'created',
+      from_status: null,
+      to_status: lead.status,
+      changed_by: actor.id,
+      changed_by_type: actor.type,
+      reason: reason || null
+    });
+    return lead;
+  },
+
+  /**
+   * Move a lead to a new status, applying any other updates alongside.
+   * Throws 409 if the lifecycle does not allow the move; setting the current
+   * status again only applies the updates and adds no history.
+   */
+  async changeStatus(lead: Lead, toStatus: LeadStatus, actor: LeadActor, reason?: string, updates: Partial<Lead> = {}): Promise<Lead> {
+    return statusQueue(lead.lead_id, async () =>
+      applyStatus((await repository.leads.getById(lead.lead_id)) || lead, toStatus, actor, reason, updates));
+  },
+
+  /**
+   * For automated updates (call events): move the lead forward only when the
+   * lifecycle allows it, otherwise keep its status. Other updates are always saved.
+   */
+  async advance(lead: Lead, toStatus: LeadStatus, actor: LeadActor, reason: string, updates: Partial<Lead> = {}): Promise<Lead> {
+    return statusQueue(lead.lead_id, async () => {
+      const stored = (await repository.leads.getById(lead.lead_id)) || lead;
+      const current = leadService.statusOf(stored);
+      if (current === toStatus || leadService.canTransition(current, toStatus)) {
+        return applyStatus(stored, toStatus, actor, reason, updates);
+      }
+      console.log(`Lead ${lead.lead_id} stays "${current}" (${reason})`);
+      return Object.keys(updates).length > 0 ? (await repository.leads.update(lead.lead_id, updates))! : stored;
+    });
+  },
+
+  // Record a history entry that does not change the status (e.g. a claim)
+  async recordEvent(lead: Lead, action: LeadHistoryEntry['action'], actor: LeadActor, reason?: string): Promise<void> {
+    const status = leadService.statusOf(lead);
+    await repository.leadHistory.append({
+      lead_id: lead.lead_id,
+      action,
+      from_status: status,
+      to_status: status,
+      changed_by: actor.id,
+      changed_by_type: actor.type,
+      reason: reason || null
+    });
+  },
+
+  /**
+   * User id holding an active claim on the lead, or null. Claims made before
+   * expiry existed lapse one window after the lead was last updated.
+   */
+  claimHolder(lead: Lead): string | null {
+    if (!lead.owner_user_id) return null;
+    const expiresAt = Date.parse(lead.claim_expires_at || '');
+    const deadline = isNaN(expiresAt) ? Date.parse(lead.updated_at) + CLAIM_TTL_MS : expiresAt;
+    return deadline > Date.now() ? lead.owner_user_id : null;
+  },
+
+  // Only the claim holder (or an admin) may work a claimed lead
+  assertCanModify(lead: Lead, actor: LeadActor): void {
+    const holder = leadService.claimHolder(lead);
+    if (holder && holder !== actor.id && !actor.admin) {
+      throw createError('This lead is claimed by another owner', 403);
+    }
+  },
+
+  // Follow-up by the claim holder restarts the expiry window
+  async renewClaim(lead: Lead, actor: LeadActor): Promise<Lead> {
+    if (leadService.claimHolder(lead) !== actor.id) return lead;
+    return (await repository.leads.update(lead.lead_id, { claim_expires_at: claimExpiry() }))!;
+  },
+
+  /**
+   * Claim a lead for the actor. 409 if another owner holds an active claim;
+   * claiming again as the holder just renews it.
+   */
+  async claim(leadId: string, actor: LeadActor): Promise<Lead> {
+    return exclusive(async () => {
+      const lead = await releaseIfExpired(await getLeadOrThrow(leadId));
+      const holder = leadService.claimHolder(lead);
+      if (holder && holder !== actor.id) {
+        throw createError('Lead is already claimed by another owner', 409);
+      }
+
+      const updated = await repository.leads.update(leadId, {
+        owner_user_id: actor.id,
+        owner_notified: 'true',
+        claimed_at: holder ? lead.claimed_at : new Date().toISOString(),
+        claim_expires_at: claimExpiry()
+      });
+      if (!holder) {
+        await leadService.recordEvent(lead, 'claimed', actor, `Claimed by ${actor.id}`);
+      }
+      return updated!;
+    });
+  },
+
+  // Give up a claim; only the holder or an admin may release it
+  async release(leadId: string, actor: LeadActor, reason?: string): Promise<Lead> {
+    return exclusive(async () => {
+      const lead = await releaseIfExpired(await getLeadOrThrow(leadId));
+      const holder = leadService.claimHolder(lead);
+      if (!holder) {
+        throw createError('Lead is not claimed', 409);
+      }
+      if (holder !== actor.id && !actor.admin) {
+        throw createError('Only the owner holding the claim can release it', 403);
+      }
+
+      const updated = await repository.leads.update(leadId, CLEARED_CLAIM);
+      await leadService.recordEvent(lead, 'released', actor, reason || `Released claim by ${holder}`);
+      return updated!;
+    });
+  },
+
+  // Admin override: hand the lead to another owner regardless of the current claim
+  async reassign(leadId: string, ownerUserId: string, actor: LeadActor, reason?: string): Promise<Lead> {
+    return exclusive(async () => {
+      const lead = await getLeadOrThrow(leadId);
+      const owner = await repository.users.getById(ownerUserId);
+      if (!owner || !['owner', 'admin'].includes(owner.user_type)) {
+        throw createError('owner_user_id must be an existing owner', 400);
+      }
+
+      const previous = leadService.claimHolder(lead);
+      const updated = await repository.leads.update(leadId, {
+        owner_user_id: ownerUserId,
+        owner_notified: 'true',
+        claimed_at: new Date().toISOString(),
+        claim_expires_at: claimExpiry()
+      });
+      await leadService.recordEvent(
+        lead,
+        'reassigned',
+        actor,
+        `Reassigned from ${previous || 'nobody'} to ${ownerUserId}` + (reason ? `: ${reason}` : '')
+      );
+      return updated!;
+    });
+  },
+
+  // Clear every lapsed claim; returns how many were released
+  async expireClaims(): Promise<number> {
+    return exclusive(async () => {
+      let expired = 0;
+      for (const lead of await repository.leads.list()) {
+        if (lead.owner_user_id && !leadService.claimHolder(lead)) {
+          await releaseIfExpired(lead);
+          expired++;
+        }
+      }
+      return expired;
+    });
+  },
+
+  // Periodically release lapsed claims so they show as unclaimed in lists
+  scheduleClaimExpiry(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      leadService.expireClaims()
+        .then(expired => expired > 0 && console.log(`Released ${expired} expired lead claim(s)`))
+        .catch(error => console.error('Lead claim expiry failed:', error));
+    }, CLAIM_SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  },
+
+  /**
+   * The lead for a tenant who asked about a specific property: their lead for
+   * that pair if there is one, else `lead` when it has no property yet, else
+   * a new lead. Runs with generation so the pair still gets only one lead.
+   */
+  async attachProperty(tenant: Tenant, property: Property, actor: LeadActor, reason: string, lead?: Lead | null, leadData: Partial<Lead> = {}): Promise<Lead> {
+    return exclusive(async () => {
+      const [existing] = await repository.leads.list({ tenant_id: tenant.tenant_id, property_id: property.property_id });
+      if (existing) return existing;
+
+      const propertyFields = { property_id: property.property_id, property_code: property.property_code };
+      if (lead && !lead.property_id && (!lead.tenant_id || lead.tenant_id === tenant.tenant_id)) {
+        return (await repository.leads.update(lead.lead_id, { ...propertyFields, tenant_id: tenant.tenant_id }))!;
+      }
+      return leadService.create({ ...leadData, ...propertyFields, tenant_id: tenant.tenant_id }, actor, reason);
+    });
+  },
+
+  // After a tenant is created or their requirements change
+  async generateForTenant(tenant: Tenant): Promise<LeadGenerationResult> {
+    return generate([tenant], await repository.properties.list({ status: 'available' }));
+  },
+
+  // After properties are listed or edited
+  async generateForProperties(properties: Property[]): Promise<LeadGenerationResult> {
+    return generate(await repository.tenants.list(), properties);
+  },
+
+  // Backfill: match every tenant against the given owner's properties (all properties if omitted)
+  async generateAll(ownerId?: string): Promise<LeadGenerationResult> {
+    const properties = await repository.properties.list({ status: 'available', ...(ownerId && { owner_id: ownerId }) });
+    return generate(await repository.tenants.list(), properties);
+  }
+};
@@ -0,0 +1,241 @@
+/**
+ * Matching Service
+ * Scores how well a property fits a tenant's requirements.
+ * Each criterion scores 0-1 and the total is the weighted average over the
+ * criteria the tenant actually specified, with a breakdown explaining it.
+ */
+
+import { FURNISHING_TYPES, Property, Tenant } from '../models/types';
+import { normalizeFurnishing, splitList } from '../utils/listing';
+import { config } from '../config/env';
+
+export type MatchCriterion = 'locality' | 'budget' | 'bedrooms' | 'amenities' | 'furnishing' | 'move_in';
+
+export type MatchWeights = Record<MatchCriterion, number>;
+
+// What the tenant is looking for; unset fields are left out of the score
+export interface MatchRequirements {
+  localities: string[];
+  budget_min?: number;
+  budget_max?: number;
+  bedrooms?: number;
+  amenities: string[];
+  furnishing?: string;
+  move_in_date?: string;
+}
+
+export interface CriterionScore {
+  criterion: MatchCriterion;
+  weight: number;
+  score: number;
+  reason: string;
+}
+
+export interface MatchResult {
+  score: number;
+  breakdown: CriterionScore[];
+}
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = { ...config.matching.weights };
+
+// Matches scoring below this are not shown to tenants or counted for owners
+export const MIN_MATCH_SCORE = config.matching.minScore;
+
+// Rent this far above the tenant's maximum (as a fraction of it) scores 0
+const BUDGET_OVER_TOLERANCE = 0.2;
+// Rent this far below the tenant's minimum scores 0; cheaper is penalized less than dearer
+const BUDGET_UNDER_TOLERANCE = 0.5;
+// Properties available this many days after the move-in date score 0
+const MOVE_IN_TOLERANCE_DAYS = 30;
+// Furnishing levels in order, so adjacent levels are a partial match
+const FURNISHING_LEVELS: readonly string[] = FURNISHING_TYPES;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: string | undefined): number | undefined => {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const formatRent = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+// Tenants record furnishing as a preference; accept a JSON field or free text
+const furnishingPreference = (preferences: string): string | undefined => {
+  try {
+    const parsed = JSON.parse(preferences);
+    if (parsed && typeof parsed.furnishing === 'string' && parsed.furnishing) {
+      return normalizeFurnishing(parsed.furnishing);
+    }
+  } catch {
+    // Not JSON; fall through to free text
+  }
+  const text = (preferences || '').toLowerCase();
+  if (/semi[\s-_]*furnished/.test(text)) return 'semi_furnished';
+  if (/un[\s-_]*furnished/.test(text)) return 'unfurnished';
+  if (/furnished/.test(text)) return 'fully_furnished';
+  return undefined;
+};
+
+type CriterionScorer = (requirements: MatchRequirements, property: Property) => { score: number; reason: string } | null;
+
+// Each scorer returns null when the tenant did not specify the criterion
+const SCORERS: Record<MatchCriterion, CriterionScorer> = {
+  locality(requirements, property) {
+    if (requirements.localities.length === 0) return null;
+    const propertyLocality = (property.locality || '').trim().toLowerCase();
+    if (!propertyLocality) {
+      return { score: 0.5, reason: 'Property has no locality listed' };
+    }
+    if (requirements.localities.includes(propertyLocality)) {
+      return { score: 1, reason: `${property.locality} is a preferred locality` };
+    }
+    const nearby = requirements.localities.find(loc => propertyLocality.includes(loc) || loc.includes(propertyLocality));
+    if (nearby) {
+      return { score: 0.8, reason: `${property.locality} overlaps preferred locality "${nearby}"` };
+    }
+    return { score: 0, reason: `${property.locality} is not among ${requirements.localities.join(', ')}` };
+  },
+
+  budget(requirements, property) {
+    const { budget_min, budget_max } = requirements;
+    if (budget_min === undefined && budget_max === undefined) return null;
+    const rent = toNumber(property.rent);
+    if (rent === undefined) {
+      return { score: 0.5, reason: 'Property has no rent listed' };
+    }
+    if (budget_max !== undefined && rent > budget_max) {
+      const over = (rent - budget_max) / (budget_max * BUDGET_OVER_TOLERANCE || 1);
+      return { score: clamp(1 - over), reason: `Rent ${formatRent(rent)} is above the maximum budget of ${formatRent(budget_max)}` };
+    }
+    if (budget_min !== undefined && rent < budget_min) {
+      const under = (budget_min - rent) / (budget_min * BUDGET_UNDER_TOLERANCE || 1);
+      return { score: clamp(1 - under), reason: `Rent ${formatRent(rent)} is below the minimum budget of ${formatRent(budget_min)}` };
+    }
+    return { score: 1, reason: `Rent ${formatRent(rent)} is within budget` };
+  },
+
+  bedrooms(requirements, property) {
+    if (requirements.bedrooms === undefined) return null;
+    const bedrooms = toNumber(property.bedrooms);
+    if (bedrooms === undefined) {
+      return { score: 0.5, reason: 'Property has no BHK listed' };
+    }
+    const difference = Math.abs(bedrooms - requirements.bedrooms);
+    if (difference === 0) {
+      return { score: 1, reason: `${bedrooms} BHK as requested` };
+    }
+    return {
+      score: difference === 1 ? 0.5 : 0,
+      reason: `${bedrooms} BHK instead of the requested ${requirements.bedrooms} BHK`
+    };
+  },
+
+  amenities(requirements, property) {
+    if (requirements.amenities.length === 0) return null;
+    const available = splitList(property.amenities);
+    const matched = requirements.amenities.filter(wanted =>
+      available.some(amenity => amenity.includes(wanted) || wanted.includes(amenity))
+    );
+    const missing = requirements.amenities.filter(wanted => !matched.includes(wanted));
+    return {
+      score: matched.length / requirements.amenities.length,
+      reason: missing.length === 0
+        ? `Has all requested amenities (${matched.join(', ')})`
+        : `Has ${matched.length} of ${requirements.amenities.length} requested amenities; missing ${missing.join(', ')}`
+    };
+  },
+
+  furnishing(requirements, property) {
+    if (!requirements.furnishing) return null;
+    const furnishing = normalizeFurnishing(property.furnishing);
+    if (!furnishing) {
+      return { score: 0.5, reason: 'Property has no furnishing listed' };
+    }
+    if (furnishing === requirements.furnishing) {
+      return { score: 1, reason: `${furnishing.replace('_', ' ')} as requested` };
+    }
+    const distance = Math.abs(FURNISHING_LEVELS.indexOf(furnishing) - FURNISHING_LEVELS.indexOf(requirements.furnishing));
+    return {
+      score: distance === 1 ? 0.5 : 0,
+      reason: `${furnishing.replace('_', ' ')} instead of ${requirements.furnishing.replace('_', ' ')}`
+    };
+  },
+
+  move_in(requirements, property) {
+    if (!requirements.move_in_date) return null;
+    const moveIn = Date.parse(requirements.move_in_date);
+    if (isNaN(moveIn)) return null;
+    const availableFrom = Date.parse(property.available_from || '');
+    if (isNaN(availableFrom)) {
+      return { score: 0.5, reason: 'Property has no availability date listed' };
+    }
+    const daysLate = Math.ceil((availableFrom - moveIn) / DAY_MS);
+    if (daysLate <= 0) {
+      return { score: 1, reason: `Available from ${property.available_from}, before the move-in date` };
+    }
+    return {
+      score: clamp(1 - daysLate / MOVE_IN_TOLERANCE_DAYS),
+      reason: `Available ${daysLate} day(s) after the move-in date`
+    };
+  }
+};
+
+export const matchingService = {
+  // Requirements stored on a tenant record
+  requirementsFromTenant(tenant: Tenant): MatchRequirements {
+    return {
+      localities: splitList(tenant.localities),
+      budget_min: toNumber(tenant.budget_min),
+      budget_max: toNumber(tenant.budget_max),
+      bedrooms: toNumber(tenant.bedrooms),
+      amenities: splitList(tenant.amenities),
+      furnishing: furnishingPreference(tenant.preferences),
+      move_in_date: tenant.move_in_date || undefined
+    };
+  },
+
+  // Requirements passed as query parameters (same names as the tenant columns)
+  requirementsFromQuery(query: Record<string, any>): MatchRequirements {
+    const param = (name: string) => (typeof query[name] === 'string' ? query[name] as string : undefined);
+    return {
+      localities: splitList(param('locality') || param('localities') || ''),
+      budget_min: toNumber(param('budget_min')),
+      budget_max: toNumber(param('budget_max')),
+      bedrooms: toNumber(param('bedrooms')),
+      amenities: splitList(param('amenities') || ''),
+      furnishing: param('furnishing') ? normalizeFurnishing(param('furnishing')!) : undefined,
+      move_in_date: param('move_in_date')
+    };
+  },
+
+  /**
+   * Score a property against the requirements. Criteria the tenant did not
+   * specify are left out, so a score of 1 means "fits everything they asked for".
+   */
+  score(requirements: MatchRequirements, property: Property, weights: MatchWeights = DEFAULT_MATCH_WEIGHTS): MatchResult {
+    const breakdown: CriterionScore[] = [];
+    for (const criterion of Object.keys(SCORERS) as MatchCriterion[]) {
+      const weight = weights[criterion] || 0;
+      const result = SCORERS[criterion](requirements, property);
+      if (!result || weight === 0) continue;
+      breakdown.push({ criterion, weight, score: round(result.score), reason: result.reason });
+    }
+
+    const totalWeight = breakdown.reduce((sum, item) => sum + item.weight, 0);
+    const score = totalWeight === 0
+      ? 0
+      : breakdown.reduce((sum, item) => sum + item.weight * item.score, 0) / totalWeight;
+
+    return { score: round(score), breakdown };
+  },
+
+  // Score every property and return them best match first
+  rank(requirements: MatchRequirements, properties: Property[], weights: MatchWeights = DEFAULT_MATCH_WEIGHTS) {
+    return properties
+      .map(property => ({ property, ...matchingService.score(requirements, property, weights) }))
+      .sort((a, b) => b.score - a.score);
+  }
+};
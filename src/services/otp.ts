@@ -0,0 +1,116 @@
+/**
+ * OTP Service
+ * Issues and verifies one-time login codes for phone numbers
+ */
+
+import crypto from 'crypto';
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { normalizePhone } from '../utils/phone';
+import { getSmsSender } from './sms';
+import { config } from '../config/env';
+
+const OTP_LENGTH = 6;
+const OTP_TTL_SECONDS = config.otp.ttlSeconds;
+const OTP_MAX_ATTEMPTS = config.otp.maxAttempts;
+const OTP_RESEND_INTERVAL_SECONDS = config.otp.resendIntervalSeconds;
+const OTP_MAX_SENDS_PER_HOUR = config.otp.maxSendsPerHour;
+
+const hashCode = (phone: string, code: string): string =>
+  crypto.createHash('sha256').update(`${phone}:${code}`).digest('hex');
+
+const generateCode = (): string =>
+  crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+
+export const otpService = {
+  /**
+   * Generate a new code for the phone number and send it by SMS.
+   * Enforces a minimum interval between sends and an hourly send cap.
+   */
+  async requestCode(phone: string): Promise<{ expires_in: number; resend_after: number }> {
+    const normalizedPhone = normalizePhone(phone);
+    if (!/^\d{10,15}$/.test(normalizedPhone)) {
+      throw createError('Invalid phone number', 400);
+    }
+
+    const now = Date.now();
+    const existing = await repository.otpCodes.get(normalizedPhone);
+
+    if (existing?.last_sent_at) {
+      const secondsSinceLastSend = (now - new Date(existing.last_sent_at).getTime()) / 1000;
+      if (secondsSinceLastSend < OTP_RESEND_INTERVAL_SECONDS) {
+        const wait = Math.ceil(OTP_RESEND_INTERVAL_SECONDS - secondsSinceLastSend);
+        throw createError(`Please wait ${wait} seconds before requesting another code`, 429);
+      }
+    }
+
+    // Keep only sends from the last hour for the hourly cap
+    const recentSends: string[] = (existing?.send_history || []).filter(
+      (sentAt: string) => now - new Date(sentAt).getTime() < 60 * 60 * 1000
+    );
+    if (recentSends.length >= OTP_MAX_SENDS_PER_HOUR) {
+      throw createError('Too many codes requested. Please try again later', 429);
+    }
+
+    const code = generateCode();
+    const sentAt = new Date(now).toISOString();
+
+    await getSmsSender().send(
+      phone,
+      `Your Homemates login code is ${code}. It expires in ${Math.round(OTP_TTL_SECONDS / 60)} minutes.`
+    );
+
+    await repository.otpCodes.upsert({
+      phone: normalizedPhone,
+      code_hash: hashCode(normalizedPhone, code),
+      expires_at: new Date(now + OTP_TTL_SECONDS * 1000).toISOString(),
+      attempts: 0,
+      last_sent_at: sentAt,
+      send_history: [...recentSends, sentAt]
+    });
+
+    return {
+      expires_in: OTP_TTL_SECONDS,
+      resend_after: OTP_RESEND_INTERVAL_SECONDS
+    };
+  },
+
+  /**
+   * Check a code for the phone number. The code is consumed on success;
+   * after too many wrong attempts it is invalidated and a new one must be requested.
+   */
+  async verifyCode(phone: string, code: string): Promise<void> {
+    const normalizedPhone = normalizePhone(phone);
+    const otp = await repository.otpCodes.get(normalizedPhone);
+
+    if (!otp || !otp.code_hash) {
+      throw createError('No active code for this phone number. Please request a new one', 400);
+    }
+
+    if (new Date(otp.expires_at).getTime() < Date.now()) {
+      await repository.otpCodes.upsert({ phone: normalizedPhone, code_hash: null });
+      throw createError('Code has expired. Please request a new one', 400);
+    }
+
+    if (otp.attempts >= OTP_MAX_ATTEMPTS) {
+      await repository.otpCodes.upsert({ phone: normalizedPhone, code_hash: null });
+      throw createError('Too many incorrect attempts. Please request a new code', 429);
+    }
+
+    const expected = Buffer.from(otp.code_hash, 'hex');
+    const actual = Buffer.from(hashCode(normalizedPhone, String(code || '').trim()), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      const attempts = otp.attempts + 1;
+      await repository.otpCodes.upsert({
+        phone: normalizedPhone,
+        attempts,
+        ...(attempts >= OTP_MAX_ATTEMPTS && { code_hash: null })
+      });
+      throw createError('Invalid code', 401);
+    }
+
+    // Consume the code but keep send history for throttling
+    await repository.otpCodes.upsert({ phone: normalizedPhone, code_hash: null, attempts: 0 });
+  }
+};
@@ -1,8 +1,8 @@
 import Perplexity from '@perplexity-ai/perplexity_ai';
+import { config } from '../config/env';
 
-// Lazy-load API key
 const getClient = (): Perplexity => {
-  const apiKey = process.env.PERPLEXITY_API_KEY;
+  const apiKey = config.perplexity.apiKey;
   if (!apiKey) {
     throw new Error('PERPLEXITY_API_KEY is required. Please check your backend/.env file.');
   }
@@ -36,6 +36,20 @@ export interface PerplexitySearchResult {
 }
 
 export const perplexityService = {
+  // Single-turn chat completion; returns the reply text
+  async complete(system: string, prompt: string, model: string): Promise<string> {
+    const client = getClient();
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt }
+      ]
+    });
+    const content = response.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content : '';
+  },
+
   // Search with custom query
   async search(query: string, maxResults: number = 20): Promise<{
     results: PerplexitySearchResult[];
@@ -0,0 +1,130 @@
+/**
+ * Phone Number Routing
+ * Our numbers each route to the agent that answers them and, optionally, to
+ * one property or to an owner's whole portfolio. An inbound call is routed by
+ * the number the caller dialled: the caller's lead gets the line's property,
+ * and is sent to the owner whose line it is.
+ */
+
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { Call, Lead, PhoneNumberRoute, Property } from '../models/types';
+import { leadService, LeadActor } from './leads';
+import { telephonyService } from './telephony';
+import { phonesMatch } from '../utils/phone';
+
+export interface InboundRoute {
+  route: PhoneNumberRoute;
+  property: Property | null;
+  // The line's owner: the property's owner, or the portfolio's; '' for a general line
+  owner_id: string;
+}
+
+// Who may route a number: owners to their own properties and portfolio, admins to any
+export interface RouteEditor {
+  id: string;
+  admin: boolean;
+}
+
+const routeName = (route: PhoneNumberRoute) => route.label || route.number;
+
+export const phoneRoutingService = {
+  /**
+   * Check a route's property or owner before it is saved: they must exist,
+   * only one may be set, and owners may only route to their own.
+   */
+  async validateTarget(target: { property_id?: string | null; owner_id?: string | null }, editor: RouteEditor): Promise<void> {
+    if (target.property_id && target.owner_id) {
+      throw createError('A number routes to a property or to an owner, not both', 400);
+    }
+    if (target.property_id) {
+      const property = await repository.properties.getById(target.property_id);
+      if (!property) {
+        throw createError('Property not found', 404);
+      }
+      if (!editor.admin && property.owner_id !== editor.id) {
+        throw createError('You can only route numbers to your own properties', 403);
+      }
+    }
+    if (target.owner_id) {
+      const owner = await repository.users.getById(target.owner_id);
+      if (!owner || owner.user_type !== 'owner') {
+        throw createError('Owner not found', 404);
+      }
+      if (!editor.admin && owner.id !== editor.id) {
+        throw createError('You can only route numbers to your own portfolio', 403);
+      }
+    }
+  },
+
+  /**
+   * Check a route's number and agent before it is saved: the number must be
+   * one the provider lists for our account, and the agent one the route's
+   * builder has added.
+   */
+  async validateLine(line: { number: string; provider: string; agent_id: string; builder_id: string }): Promise<void> {
+    const numbers = await telephonyService.get(line.provider).listNumbers();
+    if (!numbers.some(number => phonesMatch(number.number, line.number))) {
+      throw createError(`This number is not on the ${line.provider} account`, 400);
+    }
+
+    const agents = await repository.agents.listByBuilder(line.builder_id);
+    if (!agents.some(agent => agent.eleven_agent_id === line.agent_id)) {
+      throw createError('Agent not found', 404);
+    }
+  },
+
+  // The route for the number a caller dialled, with its property and owner
+  async resolve(dialledNumber: string): Promise<InboundRoute | null> {
+    const route = dialledNumber ? await repository.phoneNumbers.getByNumber(dialledNumber) : null;
+    if (!route) return null;
+    const property = route.property_id ? await repository.properties.getById(route.property_id) : null;
+    return { route, property, owner_id: property?.owner_id || route.owner_id || '' };
+  },
+
+  /**
+   * Route an inbound call by the number dialled. The call gets the line's
+   * builder, and its agent if the provider named none; once it has completed, the caller's
+   * lead gets the line's property (unless they named another on the call)
+   * and its owner, and is created if the call has none yet.
+   */
+  async routeCall(call: Call, actor: LeadActor): Promise<Call> {
+    if (call.direction !== 'inbound') return call;
+    const inbound = await phoneRoutingService.resolve(call.to_number);
+    if (!inbound) return call;
+    const { route, property } = inbound;
+
+    // The line's builder owns the call, and its agent answers if the provider named none
+    const links: Partial<Call> = {};
+    if (!call.builder_id && route.builder_id) links.builder_id = route.builder_id;
+    if (!call.agent_id && route.agent_id) links.agent_id = route.agent_id;
+    if (Object.keys(links).length > 0) {
+      call = (await repository.calls.update(call.id, links))!;
+    }
+    const tenant = call.tenant_id ? await repository.tenants.getById(call.tenant_id) : null;
+    if (call.outcome !== 'completed' || !tenant) return call;
+
+    const leadData: Partial<Lead> = {
+      channel: 'call',
+      transcript: call.transcript,
+      call_recording_url: call.recording_url,
+      status: 'contacted',
+      owner_notified: 'false'
+    };
+    let lead = call.lead_id ? await repository.leads.getById(call.lead_id) : null;
+    if (property && !lead?.property_id) {
+      lead = await leadService.attachProperty(tenant, property, actor, `Called ${routeName(route)}, the line for ${property.property_code || property.property_id}`, lead, leadData);
+    } else if (!lead) {
+      lead = await leadService.create({ ...leadData, tenant_id: tenant.tenant_id }, actor, `Called ${routeName(route)}`);
+    }
+
+    if (lead.dialled_number !== route.number || lead.routed_owner_id !== inbound.owner_id) {
+      lead = (await repository.leads.update(lead.lead_id, { dialled_number: route.number, routed_owner_id: inbound.owner_id }))!;
+    }
+    if (!call.lead_id) {
+      call = (await repository.calls.update(call.id, { lead_id: lead.lead_id }))!;
+    }
+    console.log(`Call ${call.id}: routed by ${route.number} to lead ${lead.lead_id}`);
+    return call;
+  }
+};
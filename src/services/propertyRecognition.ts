@@ -0,0 +1,165 @@
+/**
+ * Property Recognition
+ * Finds the property a caller is asking about in a call transcript, by its
+ * property code ("HM-1023", or spoken: "H M one zero double two three") or a
+ * distinctive part of its address ("Sunshine Apartments"). Codes are looked
+ * up with properties.getByCode. The caller's own words are searched first,
+ * then the agent's, since an agent may read back or pitch a code.
+ */
+
+import { repository } from '../config/repository';
+import { Property } from '../models/types';
+import { callerLines, spokenText } from '../utils/transcript';
+
+export interface PropertyMention {
+  property: Property;
+  matched_by: 'code' | 'address';
+  // The code or address part as it matched
+  phrase: string;
+}
+
+// Spoken digits, in English and Hindi
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', o: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  shunya: '0', ek: '1', do: '2', teen: '3', char: '4', paanch: '5', panch: '5', chhe: '6', che: '6', saat: '7', aath: '8', nau: '9'
+};
+const REPEATS: Record<string, number> = { double: 2, triple: 3 };
+// Said between the parts of a code
+const SEPARATOR_WORDS = ['dash', 'hyphen', 'minus', 'slash'];
+
+// Address words too common to identify a property on their own
+const GENERIC_ADDRESS_WORDS = new Set([
+  'flat', 'house', 'plot', 'no', 'number', 'floor', 'road', 'rd', 'street', 'lane', 'marg', 'near', 'opp', 'opposite',
+  'behind', 'apartment', 'apartments', 'society', 'building', 'tower', 'wing', 'phase', 'sector', 'block', 'main',
+  'cross', 'the', 'and', 'of', 'india'
+]);
+
+// A code as compared: upper case, letters and digits only
+const codeKey = (code: string): string => (code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const words = (text: string): string[] => (text.toLowerCase().match(/[a-z0-9]+/g) || []);
+
+/**
+ * What each word could stand for in a code: "one" is 1, "o" is 0 or the
+ * letter O, "double two" is 22 and "dash" is nothing. Ordinary words are kept
+ * as they are; they just never match a code.
+ */
+const codePieces = (text: string): string[][] => {
+  const pieces: string[][] = [];
+  const tokens = words(text);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const digit = DIGIT_WORDS[tokens[i + 1]] ?? (/^\d$/.test(tokens[i + 1] || '') ? tokens[i + 1] : undefined);
+    if (REPEATS[token] && digit) {
+      pieces.push([digit.repeat(REPEATS[token])]);
+      i++;
+    } else if (SEPARATOR_WORDS.includes(token)) {
+      pieces.push(['']);
+    } else {
+      pieces.push(DIGIT_WORDS[token] ? [DIGIT_WORDS[token], token.toUpperCase()] : [token.toUpperCase()]);
+    }
+  }
+  return pieces;
+};
+
+/**
+ * Codes said in the text, longest match first at each word. Only codes with
+ * a letter and a digit are looked for, so prices and phone numbers never match.
+ */
+const findCodes = (text: string, codes: Map<string, Property>): string[] => {
+  const prefixes = new Set<string>();
+  for (const key of codes.keys()) {
+    for (let length = 1; length <= key.length; length++) prefixes.add(key.slice(0, length));
+  }
+
+  const pieces = codePieces(text);
+  const found: string[] = [];
+  for (let start = 0; start < pieces.length; start++) {
+    let longest: { key: string; end: number } | null = null;
+    const extend = (index: number, sofar: string) => {
+      if (sofar && codes.has(sofar) && (!longest || sofar.length > longest.key.length)) longest = { key: sofar, end: index };
+      if (index >= pieces.length) return;
+      for (const piece of pieces[index]) {
+        const next = sofar + piece;
+        if (piece && prefixes.has(next)) extend(index + 1, next);
+        else if (!piece && sofar) extend(index + 1, sofar);
+      }
+    };
+    extend(start, '');
+
+    if (longest) {
+      const { key, end } = longest;
+      if (!found.includes(key)) found.push(key);
+      start = end - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Address parts that identify exactly one property: at least two words, one
+ * of them not a place name, number or generic address word.
+ */
+const addressParts = (properties: Property[]): Map<string, Property> => {
+  const places = new Set(properties.flatMap(property => [...words(property.locality), ...words(property.city)]));
+  const owners = new Map<string, Property[]>();
+
+  for (const property of properties) {
+    for (const part of (property.address || '').split(',')) {
+      const partWords = words(part);
+      const distinctive = partWords.some(word =>
+        word.length > 2 && !/^\d+$/.test(word) && !GENERIC_ADDRESS_WORDS.has(word) && !places.has(word)
+      );
+      if (partWords.length < 2 || !distinctive) continue;
+
+      const key = partWords.join(' ');
+      const matches = owners.get(key) || [];
+      if (!matches.includes(property)) owners.set(key, [...matches, property]);
+    }
+  }
+
+  return new Map([...owners].filter(([, matches]) => matches.length === 1).map(([key, [property]]) => [key, property]));
+};
+
+// Properties mentioned in the text: codes first, then addresses
+export const findPropertyMentions = (text: string, properties: Property[]): PropertyMention[] => {
+  const codes = new Map<string, Property>();
+  for (const property of properties) {
+    const key = codeKey(property.property_code);
+    if (/[A-Z]/.test(key) && /\d/.test(key) && !codes.has(key)) codes.set(key, property);
+  }
+
+  const mentions: PropertyMention[] = findCodes(text, codes).map(key => ({
+    property: codes.get(key)!,
+    matched_by: 'code',
+    phrase: codes.get(key)!.property_code
+  }));
+
+  const spoken = ` ${words(text).join(' ')} `;
+  for (const [part, property] of addressParts(properties)) {
+    if (spoken.includes(` ${part} `) && !mentions.some(mention => mention.property.property_id === property.property_id)) {
+      mentions.push({ property, matched_by: 'address', phrase: part });
+    }
+  }
+  return mentions;
+};
+
+export const propertyRecognitionService = {
+  /**
+   * The property the call is about, or null. Codes are resolved through
+   * getByCode so they match the way the properties API looks them up.
+   */
+  async recognize(transcript: string): Promise<PropertyMention | null> {
+    if (!transcript?.trim()) return null;
+    const properties = await repository.properties.list();
+    const mentionsIn = (lines: string[]) => findPropertyMentions(lines.map(spokenText).join('\n'), properties);
+
+    const [mention] = [...mentionsIn(callerLines(transcript)), ...mentionsIn(transcript.split('\n'))];
+    if (!mention) return null;
+
+    const property = mention.matched_by === 'code'
+      ? await repository.properties.getByCode(mention.property.property_code)
+      : mention.property;
+    return property ? { ...mention, property } : null;
+  }
+};
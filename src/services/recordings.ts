@@ -0,0 +1,228 @@
+/**
+ * Recording Service
+ * Provider recording links expire, so once a call ends its recording is
+ * downloaded into recording storage and the call's recording_url becomes our
+ * authenticated playback URL. Recordings are deleted when their retention
+ * period (RECORDING_RETENTION_DAYS) ends or on request; deleting one keeps
+ * its record so it is never downloaded again, and is written to the
+ * compliance audit log.
+ */
+
+import axios from 'axios';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { repository } from '../config/repository';
+import { getRecordingStore } from '../config/recordingStorage';
+import { config } from '../config/env';
+import { Call, CallRecording } from '../models/types';
+import { complianceService, ComplianceActor, SYSTEM_COMPLIANCE_ACTOR } from './compliance';
+import { tenantNumber } from './calls';
+
+// Downloads are retried by the sweep until they have failed this many times
+const MAX_ATTEMPTS = 3;
+const DOWNLOAD_TIMEOUT_MS = 2 * 60 * 1000;
+const SWEEP_INTERVAL_MS = config.recordings.sweepMinutes * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ELEVENLABS_API_URL = 'https://api.elevenlabs.io';
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/wave': '.wav',
+  'audio/ogg': '.ogg',
+  'audio/webm': '.webm',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac'
+};
+
+// Calls being downloaded now, so overlapping events do not fetch one twice
+const archiving = new Set<string>();
+
+export const playbackUrl = (callId: string) => `/api/calls/${callId}/recording`;
+
+// When retention deletes the recording; null if it is kept until deleted on request
+export const recordingExpiry = (recording: CallRecording): string | null =>
+  recording.status === 'stored' && recording.stored_at && config.recordings.retentionDays > 0
+    ? new Date(Date.parse(recording.stored_at) + config.recordings.retentionDays * DAY_MS).toISOString()
+    : null;
+
+// Where to download the call's recording from, or null if there is nothing to fetch
+const recordingSource = (call: Call): { url: string; headers: Record<string, string> } | null => {
+  if (/^https?:\/\//i.test(call.recording_url)) {
+    return { url: call.recording_url, headers: {} };
+  }
+  // ElevenLabs serves conversation audio from its API instead of sending a link
+  if (call.provider === 'elevenlabs' && config.elevenlabs.apiKey) {
+    return {
+      url: `${ELEVENLABS_API_URL}/v1/convai/conversations/${encodeURIComponent(call.provider_call_id)}/audio`,
+      headers: { 'xi-api-key': config.elevenlabs.apiKey }
+    };
+  }
+  return null;
+};
+
+const extensionFor = (contentType: string, url: string): string => {
+  if (EXTENSIONS[contentType]) return EXTENSIONS[contentType];
+  const fromUrl = path.extname(new URL(url).pathname).toLowerCase();
+  return Object.values(EXTENSIONS).includes(fromUrl) ? fromUrl : '.audio';
+};
+
+// Pass the audio through, failing once it is larger than RECORDING_MAX_MB
+const limitSize = (audio: Readable): Readable => {
+  let bytes = 0;
+  const limited = new Transform({
+    transform(chunk, _encoding, done) {
+      bytes += chunk.length;
+      done(bytes > config.recordings.maxBytes ? new Error(`Recording is larger than ${config.recordings.maxBytes} bytes`) : null, chunk);
+    }
+  });
+  audio.on('error', error => limited.destroy(error));
+  return audio.pipe(limited);
+};
+
+const saveRecording = async (existing: CallRecording | null, call: Call, sourceUrl: string, fields: Partial<CallRecording>): Promise<CallRecording> => {
+  if (existing) {
+    return (await repository.callRecordings.update(existing.id, fields))!;
+  }
+  return repository.callRecordings.create({
+    call_id: call.id,
+    provider: call.provider,
+    source_url: sourceUrl,
+    status: 'failed',
+    storage: getRecordingStore().name,
+    storage_key: '',
+    content_type: '',
+    size_bytes: 0,
+    attempts: 0,
+    error: null,
+    stored_at: null,
+    deleted_at: null,
+    deleted_by: null,
+    deletion_reason: null,
+    ...fields
+  });
+};
+
+export const recordingService = {
+  /**
+   * Download an ended call's recording into storage and point the call and
+   * its lead at our copy. Does nothing while the call is live, once it is
+   * archived or deleted, or after MAX_ATTEMPTS failed downloads.
+   */
+  async archive(call: Call): Promise<CallRecording | null> {
+    if (call.outcome === 'pending' || call.recording_id || archiving.has(call.id)) return null;
+    const source = recordingSource(call);
+    if (!source) return null;
+
+    const existing = await repository.callRecordings.getByCall(call.id);
+    if (existing && (existing.status !== 'failed' || existing.attempts >= MAX_ATTEMPTS)) return existing;
+
+    archiving.add(call.id);
+    const attempts = (existing?.attempts || 0) + 1;
+    try {
+      const response = await axios.get(source.url, {
+        headers: source.headers,
+        responseType: 'stream',
+        timeout: DOWNLOAD_TIMEOUT_MS
+      });
+      const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+      if (!contentType.startsWith('audio/') && contentType !== 'application/octet-stream') {
+        response.data.destroy();
+        throw new Error(`Expected audio but got ${contentType}`);
+      }
+
+      const store = getRecordingStore();
+      const key = `${call.id}${extensionFor(contentType, source.url)}`;
+      const size = await store.save(key, limitSize(response.data));
+
+      const recording = await saveRecording(existing, call, source.url, {
+        status: 'stored',
+        storage: store.name,
+        storage_key: key,
+        content_type: contentType,
+        size_bytes: size,
+        attempts,
+        error: null,
+        stored_at: new Date().toISOString()
+      });
+      await repository.calls.update(call.id, { recording_id: recording.id, recording_url: playbackUrl(call.id) });
+      if (call.lead_id) {
+        await repository.leads.update(call.lead_id, { call_recording_url: playbackUrl(call.id) });
+      }
+      console.log(`Call ${call.id}: archived ${size} byte recording`);
+      return recording;
+    } catch (error: any) {
+      const message = error.response ? `${error.response.status} from provider` : error.message;
+      console.error(`Call ${call.id}: recording download failed (attempt ${attempts}):`, message);
+      return saveRecording(existing, call, source.url, { status: 'failed', attempts, error: message });
+    } finally {
+      archiving.delete(call.id);
+    }
+  },
+
+  /**
+   * Delete the call's recording, archived or not: the stored audio is removed,
+   * the call and lead lose their recording link, and the provider's copy is
+   * never downloaded afterwards.
+   */
+  async deleteForCall(call: Call, actor: ComplianceActor, reason: string): Promise<CallRecording> {
+    const existing = await repository.callRecordings.getByCall(call.id);
+    if (existing?.status === 'deleted') return existing;
+
+    if (existing?.storage_key) {
+      await getRecordingStore().remove(existing.storage_key);
+    }
+    const recording = await saveRecording(existing, call, call.recording_url, {
+      status: 'deleted',
+      deleted_at: new Date().toISOString(),
+      deleted_by: actor.id,
+      deletion_reason: reason
+    });
+
+    await repository.calls.update(call.id, { recording_id: recording.id, recording_url: '' });
+    const lead = call.lead_id ? await repository.leads.getById(call.lead_id) : null;
+    if (lead?.call_recording_url && [call.recording_url, playbackUrl(call.id)].includes(lead.call_recording_url)) {
+      await repository.leads.update(lead.lead_id, { call_recording_url: '' });
+    }
+    await complianceService.recordRecordingDeleted(tenantNumber(call), call.id, reason, actor);
+    return recording;
+  },
+
+  /**
+   * Download recordings that are due (failed downloads, and calls that ended
+   * while we were down) and delete those past their retention period.
+   */
+  async sweep(): Promise<{ archived: number; deleted: number }> {
+    const result = { archived: 0, deleted: 0 };
+
+    for (const call of await repository.calls.list()) {
+      if (call.outcome !== 'pending' && !call.recording_id && recordingSource(call)) {
+        const recording = await recordingService.archive(call);
+        if (recording?.status === 'stored') result.archived++;
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const recording of await repository.callRecordings.list({ status: 'stored' })) {
+      const expiry = recordingExpiry(recording);
+      const call = expiry && expiry <= now ? await repository.calls.getById(recording.call_id) : null;
+      if (call) {
+        await recordingService.deleteForCall(call, SYSTEM_COMPLIANCE_ACTOR, `Retention period of ${config.recordings.retentionDays} days ended`);
+        result.deleted++;
+      }
+    }
+    return result;
+  },
+
+  scheduleSweep(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      recordingService.sweep()
+        .then(({ archived, deleted }) => (archived > 0 || deleted > 0) && console.log(`Recordings: archived ${archived}, deleted ${deleted}`))
+        .catch(error => console.error('Recording sweep failed:', error));
+    }, SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+};
@@ -1,15 +1,27 @@
 /**
  * Ringg AI Service
- * Handles outbound calls using Ringg AI API
+ * Handles outbound calls using Ringg AI API, and applies Ringg's call-status
+ * callbacks to the stored call records and their leads
  */
 
 import axios from 'axios';
+import { repository } from '../config/repository';
+import { config } from '../config/env';
+import { createError } from '../middleware/errorHandler';
+import { LeadActor } from './leads';
+import { callService, normalizeCallStatus } from './calls';
+import { transcriptAnalysisService } from './transcriptAnalysis';
+import { parseTurns } from '../utils/transcript';
 
-const RINGG_API_BASE_URL = 'https://prod-api.ringg.ai/ca/api/v0';
-const RINGG_API_KEY = process.env.RINGG_API_KEY || '5d001a13-f975-4baa-a8b6-e61fce1e8e98';
-const RINGG_AGENT_ID = process.env.RINGG_AGENT_ID_OUTBOUND || process.env.RINGG_AGENT_ID || '752c2ef5-086d-475a-87ca-c84708d4c49a';
-// RINGG_FROM_NUMBER: Default to provided number, can be overridden via environment variable
-const RINGG_FROM_NUMBER = process.env.RINGG_FROM_NUMBER || '+918035736726';
+const RINGG_API_BASE_URL = config.ringg.apiBaseUrl;
+
+// The API key, failing with 503 when Ringg is not configured
+const ringgApiKey = (): string => {
+  if (!config.ringg.apiKey) {
+    throw createError('Ringg is not configured: RINGG_API_KEY is not set', 503);
+  }
+  return config.ringg.apiKey;
+};
 
 export interface OutboundCallParams {
   name: string;
@@ -55,22 +67,23 @@ export interface OutboundCallResponse {
  * Initiate an outbound call using Ringg AI API
  */
 export async function initiateOutboundCall(params: OutboundCallParams): Promise<OutboundCallResponse> {
+  const apiKey = ringgApiKey();
+
+  // Agent and caller ID default to RINGG_AGENT_ID and RINGG_FROM_NUMBER
+  const agentId = params.agent_id || config.ringg.agentId;
+  const fromNumber = params.from_number?.trim() || config.ringg.fromNumbers[0];
+  if (!agentId || !fromNumber) {
+    throw createError('Ringg needs an agent_id and from_number; set RINGG_AGENT_ID and RINGG_FROM_NUMBER or pass them', 400);
+  }
+
   const requestBody: any = {
     name: params.name,
     mobile_number: params.mobile_number,
-    agent_id: params.agent_id || RINGG_AGENT_ID
+    agent_id: agentId,
+    // Required by Ringg AI
+    from_number: fromNumber
   };
 
-  // Always include from_number (required by Ringg AI)
-  // Use provided from_number, or fall back to default
-  const fromNumber = params.from_number || RINGG_FROM_NUMBER;
-  if (fromNumber && fromNumber.trim() !== '') {
-    requestBody.from_number = fromNumber.trim();
-  } else {
-    // If no from_number is available, use the default
-    requestBody.from_number = RINGG_FROM_NUMBER;
-    }
-
   // Only include custom_args_values if provided and not empty
   if (params.custom_args_values && Object.keys(params.custom_args_values).length > 0) {
     requestBody.custom_args_values = params.custom_args_values;
@@ -86,7 +99,7 @@ export async function initiateOutboundCall(params: OutboundCallParams): Promise<
       url: `${RINGG_API_BASE_URL}/calling/outbound/individual`,
       body: requestBody,
         headers: {
-        'X-API-KEY': RINGG_API_KEY.substring(0, 10) + '...', // Log partial key for security
+        'X-API-KEY': apiKey.substring(0, 10) + '...', // Log partial key for security
           'Content-Type': 'application/json'
         }
       });
@@ -96,7 +109,7 @@ export async function initiateOutboundCall(params: OutboundCallParams): Promise<
       requestBody,
       {
         headers: {
-          'X-API-KEY': RINGG_API_KEY,
+          'X-API-KEY': apiKey,
             'Content-Type': 'application/json'
           }
         }
@@ -134,3 +147,68 @@ export async function initiateOutboundCall(params: OutboundCallParams): Promise<
   }
 }
 
+/**
+ * Fetch a call's details (status, transcript, recording) from Ringg AI
+ */
+export async function getRinggCall(callId: string): Promise<any> {
+  const apiKey = ringgApiKey();
+  try {
+    const response = await axios.get(`${RINGG_API_BASE_URL}/calling/call-details/${encodeURIComponent(callId)}`, {
+      headers: { 'X-API-KEY': apiKey }
+    });
+    return response.data;
+  } catch (error: any) {
+    const errorData = error.response?.data;
+    const errorMessage = errorData?.error?.message || errorData?.message || error.response?.statusText || error.message;
+    throw new Error(`Ringg AI API Error (${errorData?.error?.code || error.response?.status || 'request'}): ${errorMessage}`);
+  }
+}
+
+const RINGG_ACTOR: LeadActor = { id: 'ringg', type: 'webhook' };
+
+// Fields we index webhook events by
+export const parseRinggEvent = (event: any) => {
+  const data = event.data && typeof event.data === 'object' ? { ...event, ...event.data } : event;
+  return {
+    eventType: String(data.event_type || data.event || data.type || 'status_update'),
+    callId: data.call_id || data.callId || data['Unique Call ID'] || data.id || null,
+    status: normalizeCallStatus(data.status || data.call_status || data['Call Status']),
+    // Ringg sends transcripts either as text or as a list of turns
+    transcript: parseTurns(data.transcript || data.transcription),
+    recordingUrl: data.recording_url || data.recordingUrl || '',
+    data
+  };
+};
+
+/**
+ * Apply a Ringg callback to the call it belongs to. Calls placed through
+ * POST /api/calls/outbound are stored first; a callback for an unknown call
+ * fails so the event stays in the log and can be replayed once it exists.
+ */
+export const processRinggEvent = async (event: any): Promise<{ event_type: string; call_id: string }> => {
+  const { eventType, callId, status, transcript, recordingUrl, data } = parseRinggEvent(event);
+  if (!callId) {
+    throw new Error('Ringg event has no call ID');
+  }
+
+  const call = await repository.calls.getByProviderCallId('ringg', String(callId));
+  if (!call) {
+    throw new Error(`Unknown Ringg call ${callId}`);
+  }
+
+  const duration = data.duration ?? data.call_duration;
+  let updated = await callService.applyUpdate(call, {
+    status,
+    at: data.timestamp || data.updated_at || undefined,
+    transcript,
+    recording_url: recordingUrl,
+    duration_seconds: duration != null ? Number(duration) : null
+  });
+  // Once the call is over, read the caller's requirements from the transcript
+  if (updated.outcome !== 'pending' && transcript.length > 0) {
+    updated = (await transcriptAnalysisService.analyzeCall(updated, { actor: RINGG_ACTOR })).call;
+  }
+  await callService.syncLead(updated, RINGG_ACTOR, `Ringg call ${status || eventType}`);
+
+  return { event_type: eventType, call_id: call.id };
+};
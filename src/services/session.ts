@@ -0,0 +1,161 @@
+/**
+ * Session Service
+ * Issues short-lived access tokens and rotating refresh tokens.
+ * Each login creates a session; revoking the session invalidates both tokens.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { Session } from '../models/types';
+import { config } from '../config/env';
+
+const ACCESS_TOKEN_TTL = config.auth.accessTokenTtl;
+const REFRESH_TOKEN_TTL_DAYS = config.auth.refreshTokenTtlDays;
+
+export interface SessionMeta {
+  user_agent?: string;
+  ip?: string;
+}
+
+export interface TokenPair {
+  access_token: string;
+  refresh_token: string;
+  expires_in: string;
+  session_id: string;
+}
+
+const hashToken = (secret: string): string =>
+  crypto.createHash('sha256').update(secret).digest('hex');
+
+const newSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+// Refresh tokens are "<session id>.<secret>" so the session can be found without scanning hashes
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+  const separator = (refreshToken || '').lastIndexOf('.');
+  if (separator <= 0) return null;
+  return {
+    sessionId: refreshToken.substring(0, separator),
+    secret: refreshToken.substring(separator + 1)
+  };
+};
+
+const signAccessToken = (user: any, sessionId: string): string => jwt.sign(
+  {
+    id: user.id,
+    email: user.email,
+    phone: user.phone,
+    builderId: user.id,
+    user_type: user.user_type || 'tenant',
+    sid: sessionId
+  },
+  config.auth.jwtSecret,
+  { expiresIn: ACCESS_TOKEN_TTL } as jwt.SignOptions
+);
+
+export const isSessionActive = (session: Session | null): boolean =>
+  !!session && !session.revoked_at && new Date(session.expires_at).getTime() > Date.now();
+
+export const sessionService = {
+  // Start a new session for a freshly authenticated user
+  async createSession(user: any, meta: SessionMeta = {}): Promise<TokenPair> {
+    const secret = newSecret();
+    const session = await repository.sessions.create({
+      user_id: user.id,
+      refresh_token_hash: hashToken(secret),
+      previous_token_hash: null,
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      last_used_at: new Date().toISOString(),
+      user_agent: meta.user_agent || null,
+      ip: meta.ip || null
+    });
+
+    return {
+      access_token: signAccessToken(user, session.id),
+      refresh_token: `${session.id}.${secret}`,
+      expires_in: ACCESS_TOKEN_TTL,
+      session_id: session.id
+    };
+  },
+
+  /**
+   * Exchange a refresh token for a new token pair. The presented token is
+   * retired; presenting a retired token again revokes the whole session.
+   */
+  async refresh(refreshToken: string, meta: SessionMeta = {}): Promise<TokenPair> {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await repository.sessions.getById(parsed.sessionId) : null;
+
+    if (!parsed || !session || !isSessionActive(session)) {
+      throw createError('Invalid or expired refresh token', 401);
+    }
+
+    const presentedHash = hashToken(parsed.secret);
+    if (presentedHash !== session.refresh_token_hash) {
+      if (presentedHash === session.previous_token_hash) {
+        // A rotated-out token was replayed: assume it was stolen
+        await repository.sessions.update(session.id, {
+          revoked_at: new Date().toISOString(),
+          revoked_reason: 'refresh_token_reuse'
+        });
+      }
+      throw createError('Invalid or expired refresh token', 401);
+    }
+
+    const user = await repository.users.getById(session.user_id);
+    if (!user) {
+      throw createError('Invalid or expired refresh token', 401);
+    }
+
+    const secret = newSecret();
+    await repository.sessions.update(session.id, {
+      refresh_token_hash: hashToken(secret),
+      previous_token_hash: presentedHash,
+      last_used_at: new Date().toISOString(),
+      ...(meta.user_agent && { user_agent: meta.user_agent }),
+      ...(meta.ip && { ip: meta.ip })
+    });
+
+    return {
+      access_token: signAccessToken(user, session.id),
+      refresh_token: `${session.id}.${secret}`,
+      expires_in: ACCESS_TOKEN_TTL,
+      session_id: session.id
+    };
+  },
+
+  // Resolve the session a refresh token belongs to, if any
+  getSessionIdFromRefreshToken(refreshToken: string): string | null {
+    return parseRefreshToken(refreshToken)?.sessionId || null;
+  },
+
+  async revokeSession(sessionId: string, reason: string = 'logout'): Promise<boolean> {
+    const session = await repository.sessions.getById(sessionId);
+    if (!session || session.revoked_at) return false;
+    await repository.sessions.update(sessionId, {
+      revoked_at: new Date().toISOString(),
+      revoked_reason: reason
+    });
+    return true;
+  },
+
+  async revokeAllSessions(userId: string, reason: string = 'logout_all'): Promise<number> {
+    return repository.sessions.revokeAllForUser(userId, reason);
+  },
+
+  // Active sessions for display, without token hashes
+  async listActiveSessions(userId: string) {
+    const sessions = await repository.sessions.listByUser(userId);
+    return sessions
+      .filter(isSessionActive)
+      .map(session => ({
+        id: session.id,
+        user_agent: session.user_agent,
+        ip: session.ip,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        expires_at: session.expires_at
+      }));
+  }
+};
@@ -0,0 +1,60 @@
+/**
+ * SMS Service
+ * Pluggable SMS sender used for OTP codes. The console sender works offline:
+ * it prints the message and appends it to data/sms_outbox.log.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+
+export interface SmsSender {
+  name: string;
+  send(to: string, message: string): Promise<void>;
+}
+
+const OUTBOX_FILE = path.join(config.storage.dataDir, 'sms_outbox.log');
+
+export const consoleSmsSender: SmsSender = {
+  name: 'console',
+
+  async send(to: string, message: string): Promise<void> {
+    console.log(`[SMS -> ${to}] ${message}`);
+
+    const dir = path.dirname(OUTBOX_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const line = JSON.stringify({ to, message, sent_at: new Date().toISOString() });
+    await fs.promises.appendFile(OUTBOX_FILE, line + '\n');
+  }
+};
+
+const senders: Record<string, SmsSender> = {
+  console: consoleSmsSender
+};
+
+let activeSender: SmsSender | null = null;
+
+// Register an additional sender (e.g. a real SMS gateway) selectable through SMS_PROVIDER
+export const registerSmsSender = (sender: SmsSender) => {
+  senders[sender.name] = sender;
+};
+
+export const getSmsSender = (): SmsSender => {
+  if (activeSender) {
+    return activeSender;
+  }
+
+  const provider = config.sms.provider;
+  const sender = senders[provider];
+  if (!sender) {
+    throw new Error(`Unknown SMS_PROVIDER "${provider}". Available: ${Object.keys(senders).join(', ')}`);
+  }
+  return sender;
+};
+
+// Override the sender explicitly (takes precedence over SMS_PROVIDER)
+export const setSmsSender = (sender: SmsSender | null) => {
+  activeSender = sender;
+};
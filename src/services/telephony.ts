@@ -0,0 +1,317 @@
+/**
+ * Telephony Service
+ * One interface over the providers we place calls through. Each adapter
+ * turns its vendor's request and response shapes into ours, so callers only
+ * deal with call records. The provider comes from the campaign, else from
+ * the agent's settings, else TELEPHONY_DEFAULT_PROVIDER.
+ */
+
+import { repository } from '../config/repository';
+import { createError } from '../middleware/errorHandler';
+import { Call, TELEPHONY_PROVIDERS, TelephonyProviderName } from '../models/types';
+import { initiateOutboundCall, getRinggCall, parseRinggEvent } from './ringg';
+import { elevenLabsService } from './elevenlabs';
+import { callService, CallUpdate, normalizeCallStatus } from './calls';
+import { LeadActor } from './leads';
+import { config } from '../config/env';
+import { parseTurns } from '../utils/transcript';
+
+export interface PlaceCallRequest {
+  // E.164 number to call
+  to_number: string;
+  agent_id: string;
+  // Number to call from; for ElevenLabs this is the phone number ID
+  from_number?: string;
+  // Name of the person called, for the agent's greeting
+  name?: string;
+  // Values for the agent's prompt variables
+  variables?: Record<string, string>;
+  // Provider-specific settings passed through as-is (e.g. Ringg's call_config)
+  options?: Record<string, any>;
+}
+
+export interface PlacedCall {
+  provider_call_id: string;
+  status: string;
+  from_number: string;
+  to_number: string;
+  agent_id: string;
+}
+
+export interface ProviderNumber {
+  // What to pass as from_number
+  id: string;
+  number: string;
+  label: string;
+  supports_outbound: boolean;
+}
+
+export interface TelephonyProvider {
+  name: TelephonyProviderName;
+  // Whether calls need a from_number; otherwise the provider's default is used
+  requiresFromNumber: boolean;
+  placeCall(request: PlaceCallRequest): Promise<PlacedCall>;
+  getCallStatus(providerCallId: string): Promise<CallUpdate>;
+  listNumbers(): Promise<ProviderNumber[]>;
+}
+
+export interface CallLinks {
+  tenant_id?: string;
+  lead_id?: string;
+  initiated_by?: string | null;
+  builder_id?: string | null;
+}
+
+// Vendor errors surface as 502s naming the provider
+const providerError = (label: string, error: any) =>
+  error?.statusCode ? error : createError(`${label} call failed: ${error?.message || error}`, 502);
+
+const ringgProvider: TelephonyProvider = {
+  name: 'ringg',
+  requiresFromNumber: false,
+
+  async placeCall(request) {
+    try {
+      const response = await initiateOutboundCall({
+        name: request.name || 'there',
+        mobile_number: request.to_number,
+        agent_id: request.agent_id,
+        ...(request.from_number && { from_number: request.from_number }),
+        ...(request.variables && { custom_args_values: request.variables }),
+        ...(request.options && { call_config: request.options })
+      });
+      const placed = response.data;
+      return {
+        provider_call_id: placed['Unique Call ID'],
+        status: normalizeCallStatus(placed['Call Status'] || response['Call Status'] || 'initiated'),
+        from_number: placed['From Number'] || request.from_number || '',
+        to_number: placed['To Number'] || request.to_number,
+        agent_id: placed['Agent ID'] || request.agent_id
+      };
+    } catch (error) {
+      throw providerError('Ringg', error);
+    }
+  },
+
+  async getCallStatus(providerCallId) {
+    try {
+      const { status, transcript, recordingUrl, data } = parseRinggEvent(await getRinggCall(providerCallId));
+      const duration = data.duration ?? data.call_duration;
+      return {
+        status,
+        transcript,
+        recording_url: recordingUrl,
+        duration_seconds: duration != null ? Number(duration) : null
+      };
+    } catch (error) {
+      throw providerError('Ringg', error);
+    }
+  },
+
+  async listNumbers() {
+    return config.ringg.fromNumbers.map(number => ({ id: number, number, label: 'Ringg caller ID', supports_outbound: true }));
+  }
+};
+
+// ElevenLabs conversation statuses in our terms; 'processing' means the call has ended
+const ELEVENLABS_STATUSES: Record<string, string> = {
+  initiated: 'initiated',
+  in_progress: 'in_progress',
+  processing: 'ended',
+  done: 'completed',
+  failed: 'failed'
+};
+
+// A conversation's status, transcript and duration as a call update; the SDK reports camelCase fields
+export const elevenLabsCallUpdate = (conversation: any): CallUpdate => {
+  const metadata = conversation.metadata || {};
+  const started = metadata.start_time_unix_secs ?? metadata.startTimeUnixSecs;
+  const duration = metadata.call_duration_secs ?? metadata.callDurationSecs;
+  return {
+    status: ELEVENLABS_STATUSES[normalizeCallStatus(conversation.status)] || normalizeCallStatus(conversation.status),
+    ...(started != null && duration != null && { at: new Date((Number(started) + Number(duration)) * 1000).toISOString() }),
+    transcript: parseTurns(conversation.transcript),
+    duration_seconds: duration != null ? Number(duration) : null
+  };
+};
+
+const elevenLabsProvider: TelephonyProvider = {
+  name: 'elevenlabs',
+  requiresFromNumber: true,
+
+  async placeCall(request) {
+    if (!request.agent_id || !request.from_number) {
+      throw createError('agent_id and from_number (the ElevenLabs phone number ID) are required for ElevenLabs calls', 400);
+    }
+    try {
+      const response = await elevenLabsService.initiateCall({
+        agent_id: request.agent_id,
+        agent_phone_number_id: request.from_number,
+        to_number: request.to_number,
+        ...(request.variables && { conversation_initiation_client_data: { dynamic_variables: request.variables } })
+      });
+      const providerCallId = response.conversation_id || response.callSid;
+      if (!response.success || !providerCallId) {
+        throw new Error(response.message || 'call was not placed');
+      }
+      return {
+        provider_call_id: providerCallId,
+        status: 'initiated',
+        from_number: request.from_number,
+        to_number: request.to_number,
+        agent_id: request.agent_id
+      };
+    } catch (error) {
+      throw providerError('ElevenLabs', error);
+    }
+  },
+
+  async getCallStatus(providerCallId) {
+    try {
+      return elevenLabsCallUpdate(await elevenLabsService.getConversation(providerCallId));
+    } catch (error) {
+      throw providerError('ElevenLabs', error);
+    }
+  },
+
+  async listNumbers() {
+    try {
+      return (await elevenLabsService.getPhoneNumbers()).map(number => ({
+        id: number.phone_number_id,
+        number: number.phone_number,
+        label: number.label,
+        supports_outbound: number.supports_outbound !== false
+      }));
+    } catch (error) {
+      throw providerError('ElevenLabs', error);
+    }
+  }
+};
+
+/**
+ * Fake provider for local runs and tests: places no real calls, and reports
+ * each call's outcome (FAKE_TELEPHONY_OUTCOME, default completed) after
+ * FAKE_TELEPHONY_CALL_SECONDS, the way a provider callback would.
+ * Not available when NODE_ENV is production.
+ */
+const FAKE_NUMBER = '+910000000000';
+const FAKE_ACTOR: LeadActor = { id: 'fake', type: 'webhook' };
+const fakeCalls = new Map<string, { placedAt: number }>();
+
+const fakeCallSeconds = () => config.telephony.fakeCallSeconds;
+
+const fakeStatus = (providerCallId: string): CallUpdate => {
+  const fakeCall = fakeCalls.get(providerCallId);
+  if (!fakeCall) {
+    throw createError(`Unknown fake call ${providerCallId}`, 404);
+  }
+  if (Date.now() - fakeCall.placedAt < fakeCallSeconds() * 1000) {
+    return { status: 'ringing' };
+  }
+  const outcome = config.telephony.fakeOutcome;
+  return outcome === 'completed'
+    ? { status: 'completed', transcript: 'agent: Hello from Homemates!\nuser: Hi, thanks for calling.', duration_seconds: fakeCallSeconds() }
+    : { status: outcome };
+};
+
+const fakeProvider: TelephonyProvider = {
+  name: 'fake',
+  requiresFromNumber: false,
+
+  async placeCall(request) {
+    const providerCallId = `fake_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    fakeCalls.set(providerCallId, { placedAt: Date.now() });
+
+    setTimeout(async () => {
+      try {
+        const call = await repository.calls.getByProviderCallId('fake', providerCallId);
+        if (!call) return;
+        const updated = await callService.applyUpdate(call, fakeStatus(providerCallId));
+        await callService.syncLead(updated, FAKE_ACTOR, `Fake call ${updated.status}`);
+      } catch (error) {
+        console.error(`Fake call ${providerCallId}: reporting outcome failed:`, error);
+      }
+    }, fakeCallSeconds() * 1000).unref();
+
+    return {
+      provider_call_id: providerCallId,
+      status: 'initiated',
+      from_number: request.from_number || FAKE_NUMBER,
+      to_number: request.to_number,
+      agent_id: request.agent_id
+    };
+  },
+
+  async getCallStatus(providerCallId) {
+    return fakeStatus(providerCallId);
+  },
+
+  async listNumbers() {
+    return [{ id: FAKE_NUMBER, number: FAKE_NUMBER, label: 'Fake number', supports_outbound: true }];
+  }
+};
+
+const PROVIDERS: Record<TelephonyProviderName, TelephonyProvider> = {
+  ringg: ringgProvider,
+  elevenlabs: elevenLabsProvider,
+  fake: fakeProvider
+};
+
+export const telephonyService = {
+  // Providers that can be used here
+  available(): TelephonyProviderName[] {
+    return TELEPHONY_PROVIDERS.filter(name => name !== 'fake' || config.nodeEnv !== 'production');
+  },
+
+  get(name: string): TelephonyProvider {
+    if (!(telephonyService.available() as string[]).includes(name)) {
+      throw createError(`Unknown telephony provider "${name}"`, 400);
+    }
+    return PROVIDERS[name as TelephonyProviderName];
+  },
+
+  /**
+   * The provider and from-number to dial with: the requested provider, else
+   * the one set on the builder's agent, else the default. The from-number
+   * falls back to the agent's only when the agent's provider is used.
+   */
+  async resolve(agentId: string, builderId: string | null | undefined, requested?: { provider?: string; from_number?: string }): Promise<{ provider: TelephonyProvider; from_number: string }> {
+    const agent = builderId
+      ? (await repository.agents.listByBuilder(builderId)).find(a => a.eleven_agent_id === agentId)
+      : undefined;
+    const name = requested?.provider || agent?.telephony_provider || config.telephony.defaultProvider;
+    const fromNumber = requested?.from_number
+      || (agent?.telephony_provider && agent.telephony_provider === name ? agent.from_number : '')
+      || '';
+    return { provider: telephonyService.get(name), from_number: fromNumber };
+  },
+
+  // Place a call and store its call record; provider events are matched to it by provider_call_id
+  async placeCall(provider: TelephonyProvider, request: PlaceCallRequest, links: CallLinks = {}): Promise<Call> {
+    const placed = await provider.placeCall(request);
+    return repository.calls.create({
+      provider: provider.name,
+      provider_call_id: placed.provider_call_id,
+      direction: 'outbound',
+      from_number: placed.from_number,
+      to_number: placed.to_number,
+      agent_id: placed.agent_id,
+      tenant_id: links.tenant_id || '',
+      lead_id: links.lead_id || '',
+      status: placed.status,
+      initiated_by: links.initiated_by || null,
+      builder_id: links.builder_id || null
+    });
+  },
+
+  // Fetch the call's status from its provider and apply it, for when a callback was missed
+  async refresh(call: Call, actor: LeadActor): Promise<Call> {
+    if (call.direction !== 'outbound') {
+      throw createError('Only outbound calls can be refreshed', 400);
+    }
+    const update = await telephonyService.get(call.provider).getCallStatus(call.provider_call_id);
+    const updated = await callService.applyUpdate(call, update);
+    await callService.syncLead(updated, actor, `${call.provider} call ${updated.status}`);
+    return updated;
+  }
+};
@@ -0,0 +1,429 @@
+/**
+ * Transcript Analysis Service
+ * Reads what a caller wants (budget, localities, BHK, move-in date,
+ * amenities, furnishing and intent) from a call transcript, and records it on
+ * the tenant, creating one for a new caller, and on the call's lead. A
+ * property the caller names is linked through propertyRecognition.
+ * The rule-based extractor works offline and always gives the same answer for
+ * the same transcript; with TRANSCRIPT_EXTRACTOR=llm, Perplexity is asked
+ * first and the rules are the fallback.
+ */
+
+import { repository } from '../config/repository';
+import { config } from '../config/env';
+import { leadService, LeadActor, SYSTEM_ACTOR } from './leads';
+import { tenantNumber } from './calls';
+import { perplexityService } from './perplexity';
+import { propertyRecognitionService, PropertyMention } from './propertyRecognition';
+import { CALLER_INTENTS, Call, CallerIntent, FURNISHING_TYPES, FurnishingType, Tenant, TranscriptRequirements } from '../models/types';
+import { splitList } from '../utils/listing';
+import { callerLines } from '../utils/transcript';
+
+type Extracted = Omit<TranscriptRequirements, 'extractor' | 'extracted_at'>;
+
+// Names of places we know, from property listings and tenant records
+interface Gazetteer {
+  localities: string[];
+  cities: string[];
+}
+
+const MULTIPLIERS: Record<string, number> = { k: 1000, thousand: 1000, hazar: 1000, hazaar: 1000, lakh: 100000, lakhs: 100000, lac: 100000, lacs: 100000 };
+
+// An amount, with an optional currency marker before it and unit after it
+const AMOUNT = /(₹\s*|\b(?:rs\.?|inr)\s*)?(\d+(?:,\d+)*(?:\.\d+)?)\s*(k|thousand|hazaa?r|lakhs?|lacs?)?\b/gi;
+// Lines where a bare number is a budget
+const BUDGET_WORDS = /\b(budget|rent|afford|pay|spend|range|around|under|upto|up to|between|max|maximum|within)\b/i;
+const MIN_WORDS = /\b(above|at least|minimum|min|more than|starting|from)\s*(rs\.?|₹|inr)?\s*$/i;
+const RANGE_JOIN = /^\s*(to|-|–|and|or)\s*(rs\.?|₹|inr)?\s*$/i;
+// Numbers that label something rather than price it: "flat 1203", "door no. 4-5", "house #12"
+const LABEL_WORDS = /\b(flat|door|house|plot|unit|room|apartment|apt|block|tower|floor|no\.?|number)\s*(no\.?|number|#)?\s*$|#\s*$/i;
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, ek: 1, do: 2, teen: 3, char: 4 };
+const BEDROOMS = /\b(\d|one|two|three|four|five|ek|do|teen|char)\s*-?\s*(bhk|rk|bed ?rooms?)\b/gi;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DAY_MONTH = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}\\b`, 'i');
+const MONTH_DAY = new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'i');
+const MONTH_ONLY = new RegExp(`\\b${MONTH}\\b`, 'i');
+// Lines where a month on its own is a move-in date ("May" is also a word)
+const MOVE_WORDS = /\b(move|moving|shift|shifting|from|by|start|starting|join|joining|possession|need it|available)\b/i;
+const IN_PERIOD = /\bin (\d+|a|one|two|three) (day|week|month)s?\b/i;
+const PERIOD_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+const AMENITIES: [string, RegExp][] = [
+  ['parking', /\b(car |bike |covered )?parking\b/i],
+  ['gym', /\b(gym|fitness cent(er|re))\b/i],
+  ['lift', /\b(lift|elevator)\b/i],
+  ['swimming pool', /\b(swimming )?pool\b/i],
+  ['power backup', /\b(power ?back ?up|generator|inverter)\b/i],
+  ['security', /\b(security|guards?|gated)\b/i],
+  ['balcony', /\bbalcon(y|ies)\b/i],
+  ['wifi', /\b(wi-?fi|internet|broadband)\b/i],
+  ['air conditioning', /\b(ac|air[- ]condition(ed|ing|er)?)\b/i],
+  ['clubhouse', /\bclub ?house\b/i],
+  ['pet friendly', /\b(pet[- ]friendly|pets? (are )?(allowed|ok))\b/i]
+];
+// "no parking needed", "don't need a gym": a negation shortly before the amenity
+const NEGATED = /\b(no|not|don'?t|do not|without)\b[^.,;]{0,15}$/i;
+
+const INTENTS: [CallerIntent, RegExp][] = [
+  ['not_interested', /\b(not interested|no thanks|no thank you|don'?t need|already (found|rented|got|have)|nahi chahiye|interest nahi)\b/i],
+  ['callback', /\b(call (me )?(back|later|tomorrow)|busy (right )?now|baad mein)\b/i],
+  ['buy', /\b(buy|buying|purchase|purchasing)\b/i],
+  ['rent', /\b(rent|rental|renting|lease|looking for (a |an )?(flat|house|room|place|apartment|pg)|pg)\b/i]
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+// The next time this month and day come round, counting today
+const nextDate = (now: Date, month: number, day: number): string | null => {
+  if (day < 1 || day > 31) return null;
+  const today = isoDate(now);
+  for (const year of [now.getUTCFullYear(), now.getUTCFullYear() + 1]) {
+    const date = new Date(Date.UTC(year, month, day));
+    if (date.getUTCMonth() !== month) return null;
+    if (isoDate(date) >= today) return isoDate(date);
+  }
+  return null;
+};
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+const findBudget = (lines: string[]): Pick<Extracted, 'budget_min' | 'budget_max'> => {
+  let budget: Pick<Extracted, 'budget_min' | 'budget_max'> = { budget_min: null, budget_max: null };
+
+  for (const line of lines) {
+    const amounts = [...line.matchAll(AMOUNT)]
+      .map(match => ({
+        index: match.index!,
+        end: match.index! + match[0].trimEnd().length,
+        value: parseFloat(match[2].replace(/,/g, '')),
+        unit: match[3] ? MULTIPLIERS[match[3].toLowerCase()] : null,
+        currency: !!match[1]
+      }))
+      // Area ("1200 sq ft") and BHK counts are not money
+      .filter(amount => !/^\s*(sq|square|bhk|rk|bed)/i.test(line.slice(amount.end)))
+      // Nor are codes ("HM-1023"), flat and door numbers, or a bare 6-digit pincode
+      .filter(amount => !/[a-z]-?$/i.test(line.slice(0, amount.index)) && !/^-?[a-z]/i.test(line.slice(amount.end)))
+      .filter(amount => !LABEL_WORDS.test(line.slice(0, amount.index)))
+      .filter(amount => amount.unit || amount.currency || !/^\d{6}$/.test(line.slice(amount.index, amount.end).trim()));
+
+    // "20 to 25k": the first amount takes the second's unit
+    amounts.forEach((amount, i) => {
+      const next = amounts[i + 1];
+      if (!amount.unit && next?.unit && RANGE_JOIN.test(line.slice(amount.end, next.index))) {
+        amount.unit = next.unit;
+      }
+    });
+
+    const candidates = amounts
+      .map(amount => ({ ...amount, rupees: amount.value * (amount.unit || 1) }))
+      .filter(amount => amount.rupees >= 1000 && amount.rupees <= 1e8
+        && (amount.unit || amount.currency || BUDGET_WORDS.test(line)));
+    // An amount with a unit or currency is the budget; bare numbers on the same line are something else
+    const marked = candidates.filter(amount => amount.unit || amount.currency);
+    const money = marked.length > 0 ? marked : candidates;
+    if (money.length === 0) continue;
+
+    // Later lines win: callers often correct themselves
+    const last = money[money.length - 1];
+    const previous = money[money.length - 2];
+    if (previous && RANGE_JOIN.test(line.slice(previous.end, last.index))) {
+      budget = { budget_min: Math.min(previous.rupees, last.rupees), budget_max: Math.max(previous.rupees, last.rupees) };
+    } else if (MIN_WORDS.test(line.slice(0, last.index))) {
+      budget = { budget_min: last.rupees, budget_max: null };
+    } else {
+      // "around 25k", "under 25k" and a plain "25k" are all a ceiling
+      budget = { budget_min: null, budget_max: last.rupees };
+    }
+  }
+  return budget;
+};
+
+const findBedrooms = (text: string): number | null => {
+  let bedrooms: number | null = null;
+  for (const match of text.matchAll(BEDROOMS)) {
+    const count = NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1], 10);
+    if (count > 0) bedrooms = count;
+  }
+  if (bedrooms === null && /\bstudio\b/i.test(text)) bedrooms = 1;
+  return bedrooms;
+};
+
+const findMoveIn = (lines: string[], now: Date): string | null => {
+  for (const line of lines) {
+    const dayMonth = line.match(DAY_MONTH);
+    if (dayMonth) return nextDate(now, monthIndex(dayMonth[2]), parseInt(dayMonth[1], 10));
+    const monthDay = line.match(MONTH_DAY);
+    if (monthDay) return nextDate(now, monthIndex(monthDay[1]), parseInt(monthDay[2], 10));
+  }
+
+  for (const line of lines) {
+    if (/\b(immediately|asap|right away|as soon as possible|urgent(ly)?|this week|this month)\b/i.test(line)) return isoDate(now);
+    if (/\bnext week\b/i.test(line)) return isoDate(addDays(now, 7));
+    if (/\bnext month\b/i.test(line)) return isoDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)));
+    if (/\bend of (the |this )?month\b/i.test(line)) return isoDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)));
+    const period = line.match(IN_PERIOD);
+    if (period) {
+      const count = NUMBER_WORDS[period[1].toLowerCase()] ?? (period[1].toLowerCase() === 'a' ? 1 : parseInt(period[1], 10));
+      return isoDate(addDays(now, count * PERIOD_DAYS[period[2].toLowerCase()]));
+    }
+    const month = MOVE_WORDS.test(line) ? line.match(MONTH_ONLY) : null;
+    if (month) return nextDate(now, monthIndex(month[1]), 1);
+  }
+  return null;
+};
+
+const findAmenities = (text: string): string[] =>
+  AMENITIES
+    .filter(([, pattern]) => {
+      const match = text.match(pattern);
+      return match && !NEGATED.test(text.slice(0, match.index));
+    })
+    .map(([name]) => name);
+
+const findFurnishing = (text: string): FurnishingType | null => {
+  if (/\bsemi[\s-]?furnished\b/i.test(text)) return 'semi_furnished';
+  if (/\b(un[\s-]?furnished|not furnished|empty flat)\b/i.test(text)) return 'unfurnished';
+  if (/\b(fully[\s-]?)?furnished\b/i.test(text)) return 'fully_furnished';
+  return null;
+};
+
+// Known place names mentioned, longest first so "Baner Road" wins over "Baner"
+const findPlaces = (text: string, names: string[]): string[] => {
+  const found: string[] = [];
+  for (const name of [...names].sort((a, b) => b.length - a.length)) {
+    if (found.some(longer => longer.toLowerCase().includes(name.toLowerCase()))) continue;
+    if (new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text)) found.push(name);
+  }
+  return found;
+};
+
+const hasRequirements = (extracted: Extracted): boolean =>
+  extracted.budget_min != null || extracted.budget_max != null || extracted.bedrooms != null
+  || extracted.localities.length > 0 || extracted.move_in_date != null
+  || extracted.amenities.length > 0 || extracted.furnishing != null;
+
+const findIntent = (text: string, extracted: Omit<Extracted, 'intent'>): CallerIntent => {
+  const intent = INTENTS.find(([, pattern]) => pattern.test(text));
+  if (intent) return intent[0];
+  // Homemates lists rentals, so a caller with requirements but no stated intent is renting
+  return hasRequirements({ ...extracted, intent: 'unknown' }) ? 'rent' : 'unknown';
+};
+
+// Rule-based extraction over the caller's lines
+export const extractWithRules = (transcript: string, gazetteer: Gazetteer, now = new Date()): Extracted => {
+  const lines = callerLines(transcript);
+  const text = lines.join('\n');
+
+  const extracted = {
+    ...findBudget(lines),
+    city: findPlaces(text, gazetteer.cities)[0] || null,
+    localities: findPlaces(text, gazetteer.localities),
+    bedrooms: findBedrooms(text),
+    move_in_date: findMoveIn(lines, now),
+    amenities: findAmenities(text),
+    furnishing: findFurnishing(text)
+  };
+  return { ...extracted, intent: findIntent(text, extracted) };
+};
+
+const LLM_INSTRUCTIONS = `You extract a rental enquiry's requirements from a phone call transcript between our agent and a caller in India.
+Reply with only a JSON object with these keys (null or [] when the caller did not say):
+budget_min, budget_max (monthly rent in rupees, numbers), city (string), localities (array of strings),
+bedrooms (number; "2 BHK" is 2), move_in_date (YYYY-MM-DD), amenities (array of lowercase strings),
+furnishing ("unfurnished", "semi_furnished" or "fully_furnished"),
+intent ("rent", "buy", "callback", "not_interested" or "unknown").`;
+
+const asNumber = (value: any): number | null => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/,/g, ''));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const asStrings = (value: any): string[] =>
+  Array.isArray(value) ? value.filter(item => typeof item === 'string' && item.trim()).map(item => item.trim()) : [];
+
+// Ask the LLM; null when it fails or its reply is not the JSON we asked for
+const extractWithLlm = async (transcript: string, now: Date): Promise<Extracted | null> => {
+  try {
+    const reply = await perplexityService.complete(
+      LLM_INSTRUCTIONS,
+      `Today is ${isoDate(now)}.\n\nTranscript:\n${transcript}`,
+      config.transcripts.llmModel
+    );
+    const json = reply.match(/\{[\s\S]*\}/);
+    if (!json) throw new Error('reply has no JSON object');
+    const raw = JSON.parse(json[0]);
+
+    return {
+      budget_min: asNumber(raw.budget_min),
+      budget_max: asNumber(raw.budget_max),
+      city: typeof raw.city === 'string' && raw.city.trim() ? raw.city.trim() : null,
+      localities: asStrings(raw.localities),
+      bedrooms: asNumber(raw.bedrooms),
+      move_in_date: /^\d{4}-\d{2}-\d{2}$/.test(raw.move_in_date) ? raw.move_in_date : null,
+      amenities: asStrings(raw.amenities).map(amenity => amenity.toLowerCase()),
+      furnishing: (FURNISHING_TYPES as readonly string[]).includes(raw.furnishing) ? raw.furnishing : null,
+      intent: (CALLER_INTENTS as readonly string[]).includes(raw.intent) ? raw.intent : 'unknown'
+    };
+  } catch (error: any) {
+    console.error('LLM transcript extraction failed, using rules:', error?.message || error);
+    return null;
+  }
+};
+
+const loadGazetteer = async (): Promise<Gazetteer> => {
+  const [properties, tenants] = await Promise.all([repository.properties.list(), repository.tenants.list()]);
+
+  // Keep the first spelling seen of each name
+  const unique = (names: string[]) => {
+    const byKey = new Map<string, string>();
+    for (const name of names.map(n => n.trim()).filter(n => n.length > 2)) {
+      if (!byKey.has(name.toLowerCase())) byKey.set(name.toLowerCase(), name);
+    }
+    return [...byKey.values()];
+  };
+
+  return {
+    localities: unique([
+      ...properties.map(property => property.locality),
+      ...tenants.flatMap(tenant => (tenant.localities || '').split(','))
+    ]),
+    cities: unique([...properties.map(property => property.city), ...tenants.map(tenant => tenant.city)])
+  };
+};
+
+// Add to a comma-separated column without repeating items
+const mergeList = (existing: string, additions: string[]): string => {
+  const items = (existing || '').split(',').map(item => item.trim()).filter(Boolean);
+  const keys = splitList(existing);
+  for (const addition of additions) {
+    if (!keys.includes(addition.toLowerCase())) {
+      items.push(addition);
+      keys.push(addition.toLowerCase());
+    }
+  }
+  return items.join(', ');
+};
+
+// Furnishing goes into the preferences JSON; free-text preferences are left as the tenant wrote them
+const withFurnishing = (preferences: string, furnishing: FurnishingType): string | null => {
+  if (!preferences?.trim()) return JSON.stringify({ furnishing });
+  try {
+    const parsed = JSON.parse(preferences);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed.furnishing === furnishing ? null : JSON.stringify({ ...parsed, furnishing });
+    }
+  } catch {
+    // Free text
+  }
+  return null;
+};
+
+// Tenant columns to change for what the caller said; what they stated replaces what we had
+const tenantUpdates = (tenant: Tenant, requirements: TranscriptRequirements): Partial<Tenant> => {
+  const updates: Partial<Tenant> = {};
+  const set = <K extends keyof Tenant>(field: K, value: Tenant[K]) => {
+    if (value !== tenant[field]) updates[field] = value;
+  };
+
+  if (requirements.budget_min != null) set('budget_min', String(requirements.budget_min));
+  if (requirements.budget_max != null) set('budget_max', String(requirements.budget_max));
+  if (requirements.bedrooms != null) set('bedrooms', String(requirements.bedrooms));
+  if (requirements.move_in_date) set('move_in_date', requirements.move_in_date);
+  if (requirements.city && !tenant.city) set('city', requirements.city);
+  if (requirements.localities.length > 0) set('localities', mergeList(tenant.localities, requirements.localities));
+  if (requirements.amenities.length > 0) set('amenities', mergeList(tenant.amenities, requirements.amenities));
+  if (requirements.furnishing) {
+    const preferences = withFurnishing(tenant.preferences, requirements.furnishing);
+    if (preferences) set('preferences', preferences);
+  }
+  return updates;
+};
+
+export interface CallAnalysis {
+  requirements: TranscriptRequirements;
+  // The caller's tenant record, if known or created
+  tenant: Tenant | null;
+  // The property the caller asked about, if one was recognized
+  property: PropertyMention | null;
+  call: Call;
+}
+
+export const transcriptAnalysisService = {
+  // Extract requirements from a transcript with the configured extractor
+  async extract(transcript: string, now = new Date()): Promise<TranscriptRequirements> {
+    const fromLlm = config.transcripts.extractor === 'llm' ? await extractWithLlm(transcript, now) : null;
+    const extracted = fromLlm || extractWithRules(transcript, await loadGazetteer(), now);
+    return { ...extracted, extractor: fromLlm ? 'llm' : 'rules', extracted_at: now.toISOString() };
+  },
+
+  /**
+   * Analyse a finished call's transcript: update the caller's tenant record
+   * (creating one for a new caller who stated requirements or named a
+   * property), link the call to it, and store the requirements on the call's
+   * lead. A property named on the call is put on the tenant's lead for it, so
+   * the lead reaches that property's owner. Safe to re-run.
+   */
+  async analyzeCall(call: Call, options: { callerName?: string; actor?: LeadActor } = {}): Promise<CallAnalysis> {
+    const requirements = await transcriptAnalysisService.extract(call.transcript);
+    const mention = await propertyRecognitionService.recognize(call.transcript);
+    const phone = tenantNumber(call);
+
+    let tenant = (call.tenant_id ? await repository.tenants.getById(call.tenant_id) : null)
+      || (phone ? await repository.tenants.getByPhone(phone) : null);
+
+    if (tenant) {
+      const updates = tenantUpdates(tenant, requirements);
+      if (Object.keys(updates).length > 0) {
+        tenant = (await repository.tenants.update(tenant.tenant_id, updates))!;
+        leadService.generateForTenant(tenant).catch(error => console.error('Lead generation failed:', error));
+      }
+    } else if (phone && requirements.intent !== 'not_interested' && (hasRequirements(requirements) || mention)) {
+      // No consent is recorded, so a tenant created here is never called back until they give it
+      const created = await repository.tenants.create({
+        name: options.callerName || '',
+        phone,
+        source: 'call',
+        consent_timestamp: '',
+        consent_scope: ''
+      });
+      tenant = (await repository.tenants.update(created.tenant_id, tenantUpdates(created, requirements)))!;
+      leadService.generateForTenant(tenant).catch(error => console.error('Lead generation failed:', error));
+    }
+
+    if (tenant && !call.tenant_id) {
+      call = (await repository.calls.update(call.id, { tenant_id: tenant.tenant_id }))!;
+    }
+
+    if (tenant && mention && requirements.intent !== 'not_interested') {
+      const callLead = call.lead_id ? await repository.leads.getById(call.lead_id) : null;
+      const lead = await leadService.attachProperty(
+        tenant,
+        mention.property,
+        options.actor || SYSTEM_ACTOR,
+        `Caller asked about ${mention.property.property_code || mention.phrase}`,
+        callLead,
+        { channel: 'call', transcript: call.transcript, call_recording_url: call.recording_url, status: 'contacted', owner_notified: 'false' }
+      );
+      if (!call.lead_id) {
+        call = (await repository.calls.update(call.id, { lead_id: lead.lead_id }))!;
+      }
+      if (lead.lead_id !== call.lead_id) {
+        await repository.leads.update(lead.lead_id, { nlp_extracted: JSON.stringify(requirements) });
+      }
+      console.log(`Call ${call.id}: caller asked about property ${mention.property.property_id} (by ${mention.matched_by} "${mention.phrase}")`);
+    }
+    if (call.lead_id) {
+      await repository.leads.update(call.lead_id, { nlp_extracted: JSON.stringify(requirements) });
+    }
+
+    console.log(`Call ${call.id}: extracted ${requirements.intent} requirements with ${requirements.extractor}`);
+    return { requirements, tenant, property: mention, call };
+  }
+};
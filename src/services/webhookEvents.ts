@@ -0,0 +1,161 @@
+/**
+ * Webhook Event Service
+ * Stores every inbound webhook delivery before processing it.
+ * A delivery that was already processed is ignored when it arrives again;
+ * any stored event can be processed again (replayed) by an admin.
+ */
+
+import crypto from 'crypto';
+import { repository, WebhookEventFilters } from '../config/repository';
+import { WebhookEvent } from '../models/types';
+import { createError } from '../middleware/errorHandler';
+import { processDesiVocalEvent } from './desivocal';
+import { processRinggEvent } from './ringg';
+import { config } from '../config/env';
+
+export type WebhookProcessor = (payload: any) => Promise<any>;
+
+export interface IngestResult {
+  event: WebhookEvent;
+  duplicate: boolean;
+}
+
+export interface ReplaySummary {
+  matched: number;
+  processed: number;
+  failed: number;
+  skipped: number;
+  events: Pick<WebhookEvent, 'id' | 'provider' | 'event_type' | 'status' | 'error'>[];
+}
+
+// Processing for each provider; replay looks the processor up by the stored provider
+const PROCESSORS: Record<string, WebhookProcessor> = {
+  desivocal: processDesiVocalEvent,
+  ringg: processRinggEvent
+};
+
+// Largest time range replay, so one request cannot reprocess the whole log
+const WEBHOOK_REPLAY_LIMIT = config.webhooks.replayLimit;
+
+// Deliveries currently being processed, so a concurrent retry or replay is not run twice
+const inFlight = new Set<string>();
+
+const keyOf = (provider: string, deliveryId: string) => `${provider}:${deliveryId}`;
+
+// Fallback delivery ID for providers that do not send one: identical bodies are the same delivery
+export const hashDeliveryBody = (rawBody: Buffer | string): string =>
+  crypto.createHash('sha256').update(rawBody).digest('hex');
+
+// Run the provider's processor for a stored event and record the outcome
+const runProcessor = async (event: WebhookEvent): Promise<WebhookEvent> => {
+  const processor = PROCESSORS[event.provider];
+  await repository.webhookEvents.update(event.id, { status: 'processing', attempts: event.attempts + 1 });
+  try {
+    if (!processor) {
+      throw new Error(`No processor for provider "${event.provider}"`);
+    }
+    const result = await processor(event.payload);
+    return (await repository.webhookEvents.update(event.id, {
+      status: 'processed',
+      result: result ?? null,
+      error: null,
+      processed_at: new Date().toISOString()
+    }))!;
+  } catch (error: any) {
+    console.error(`Webhook event ${event.id} (${event.provider}) failed:`, error);
+    return (await repository.webhookEvents.update(event.id, {
+      status: 'failed',
+      error: error?.message || String(error)
+    }))!;
+  }
+};
+
+// Process a stored event unless its delivery is already in flight (returns null then)
+const runExclusive = async (event: WebhookEvent): Promise<WebhookEvent | null> => {
+  const key = keyOf(event.provider, event.delivery_id);
+  if (inFlight.has(key)) return null;
+
+  inFlight.add(key);
+  try {
+    return await runProcessor(event);
+  } finally {
+    inFlight.delete(key);
+  }
+};
+
+export const webhookEventService = {
+  /**
+   * Store and process a delivery. Returns duplicate: true without processing
+   * if the delivery was already processed or is being processed right now.
+   */
+  async ingest(
+    provider: string,
+    deliveryId: string,
+    payload: any,
+    rawPayload: string,
+    meta: { event_type: string; call_id: string | null }
+  ): Promise<IngestResult> {
+    const key = keyOf(provider, deliveryId);
+    const existing = await repository.webhookEvents.getByDelivery(provider, deliveryId);
+    if (inFlight.has(key) || existing?.status === 'processed') {
+      return { event: existing!, duplicate: true };
+    }
+
+    inFlight.add(key);
+    try {
+      const event = existing || await repository.webhookEvents.create({
+        provider,
+        delivery_id: deliveryId,
+        event_type: meta.event_type,
+        call_id: meta.call_id,
+        payload,
+        raw_payload: rawPayload,
+        status: 'processing'
+      });
+      return { event: await runProcessor(event), duplicate: false };
+    } finally {
+      inFlight.delete(key);
+    }
+  },
+
+  // Process a stored event again, whatever its current status
+  async replay(eventId: string): Promise<WebhookEvent> {
+    const event = await repository.webhookEvents.getById(eventId);
+    if (!event) {
+      throw createError('Webhook event not found', 404);
+    }
+
+    const replayed = await runExclusive(event);
+    if (!replayed) {
+      throw createError('Webhook event is already being processed', 409);
+    }
+    return replayed;
+  },
+
+  // Replay every event received in a time range, oldest first
+  async replayRange(filters: WebhookEventFilters): Promise<ReplaySummary> {
+    const events = await repository.webhookEvents.list(filters);
+    if (events.length > WEBHOOK_REPLAY_LIMIT) {
+      throw createError(`Range matches ${events.length} events; narrow it to at most ${WEBHOOK_REPLAY_LIMIT}`, 400);
+    }
+
+    const summary: ReplaySummary = { matched: events.length, processed: 0, failed: 0, skipped: 0, events: [] };
+    for (const event of events) {
+      const replayed = await runExclusive(event);
+      if (!replayed) {
+        summary.skipped++;
+        continue;
+      }
+
+      summary[replayed.status === 'processed' ? 'processed' : 'failed']++;
+      summary.events.push({
+        id: replayed.id,
+        provider: replayed.provider,
+        event_type: replayed.event_type,
+        status: replayed.status,
+        error: replayed.error
+      });
+    }
+    return summary;
+  }
+};
@@ -0,0 +1,15 @@
+/**
+ * Listing field helpers
+ * Property and tenant columns hold free text typed by owners and callers;
+ * these put them in a comparable form
+ */
+
+// 'Semi-Furnished' and 'semi furnished' both become 'semi_furnished'
+export const normalizeFurnishing = (value: string): string => {
+  const normalized = (value || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return normalized === 'furnished' ? 'fully_furnished' : normalized;
+};
+
+// Split a comma-separated column into lowercase, trimmed, non-empty items
+export const splitList = (value: string): string[] =>
+  (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
@@ -0,0 +1,38 @@
+/**
+ * Phone number helpers
+ * Shared normalization so users, tenants and OTP codes match the same number
+ * regardless of how it was typed
+ */
+
+// Remove spaces, +, -, parentheses and a leading 0 (e.g. "+91 70952 88950" -> "917095288950", "07095288950" -> "7095288950")
+export const normalizePhone = (phone: string): string => {
+  let normalized = (phone || '').replace(/[\s\+\-\(\)]/g, '');
+  if (normalized.startsWith('0')) {
+    normalized = normalized.substring(1);
+  }
+  return normalized;
+};
+
+// True when both numbers normalize to the same digits
+export const phonesMatch = (a: string, b: string): boolean => {
+  const normalizedA = normalizePhone(a);
+  return normalizedA !== '' && normalizedA === normalizePhone(b);
+};
+
+// E.164 form for dialing ("98765 43210" -> "+919876543210"); numbers without a country code are taken as Indian. Null if invalid
+export const toE164 = (phone: string): string | null => {
+  let formatted = (phone || '').trim().replace(/[\s\-\(\)]/g, '');
+  if (!formatted.startsWith('+')) {
+    if (formatted.startsWith('0')) {
+      formatted = '+91' + formatted.substring(1);
+    } else if (formatted.length === 10) {
+      formatted = '+91' + formatted;
+    } else if (formatted.length > 10) {
+      // Might already have country code without +
+      formatted = '+' + formatted;
+    } else {
+      return null;
+    }
+  }
+  return /^\+[1-9]\d{1,14}$/.test(formatted) ? formatted : null;
+};
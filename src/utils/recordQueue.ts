@@ -0,0 +1,26 @@
+/**
+ * Per-record queues
+ * Read-merge-write cycles on one record (a call's transcript, a lead's
+ * status) run one at a time, so concurrent updates cannot overwrite each
+ * other's changes. Work on different records still runs side by side.
+ */
+
+/**
+ * Create a queue keyed by record ID. Work for the same key runs in the order
+ * it was queued; never queue work for a key from inside work for that key.
+ */
+export const createRecordQueue = () => {
+  const queues = new Map<string, Promise<unknown>>();
+
+  return <R>(key: string, fn: () => Promise<R>): Promise<R> => {
+    const run = (queues.get(key) || Promise.resolve()).catch(() => undefined).then(fn);
+
+    const tail = run.catch(() => undefined);
+    queues.set(key, tail);
+    tail.then(() => {
+      if (queues.get(key) === tail) queues.delete(key);
+    });
+
+    return run;
+  };
+};
@@ -0,0 +1,49 @@
+/**
+ * Spreadsheet helpers
+ * Read uploaded CSV and Excel files into row objects keyed by header
+ */
+
+import csv from 'csv-parser';
+import xlsx from 'xlsx';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { Dataset } from '../models/types';
+
+export async function parseCSV(filePath: string): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const results: any[] = [];
+    fs.createReadStream(filePath)
+      .pipe(csv())
+      .on('data', (data) => results.push(data))
+      .on('end', () => resolve(results))
+      .on('error', reject);
+  });
+}
+
+export async function parseExcel(filePath: string): Promise<any[]> {
+  const workbook = xlsx.readFile(filePath);
+  const sheetName = workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheetName];
+  return xlsx.utils.sheet_to_json(worksheet);
+}
+
+// Where a dataset's file is stored; file URLs are served from the uploads directory
+export const datasetFilePath = (dataset: Dataset): string =>
+  path.join(config.storage.uploadsDir, dataset.file_url.replace(/^\/uploads\//, ''));
+
+// Rows of a stored dataset file; empty if the file is missing or not a spreadsheet
+export async function readDatasetRows(dataset: Dataset): Promise<any[]> {
+  const filePath = datasetFilePath(dataset);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const fileExt = path.extname(dataset.file_name).toLowerCase();
+  if (fileExt === '.csv') {
+    return parseCSV(filePath);
+  } else if (fileExt === '.xlsx' || fileExt === '.xls') {
+    return parseExcel(filePath);
+  }
+  return [];
+}
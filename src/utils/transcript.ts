@@ -0,0 +1,128 @@
+/**
+ * Transcript helpers
+ * Transcripts are stored as speaker turns and shown as text, one
+ * "speaker: words" turn per line
+ */
+
+import { TranscriptSpeaker, TranscriptTurn } from '../models/types';
+
+// Transcript lines spoken by our agent rather than the caller
+const AGENT_LINE = /^\s*(agent|assistant|bot|ai)\s*:/i;
+const SPEAKER_LABEL = /^\s*[a-z][\w ]{0,19}:\s*/i;
+const AGENT_SPEAKERS = ['agent', 'assistant', 'bot', 'ai'];
+
+export const isAgentLine = (line: string): boolean => AGENT_LINE.test(line);
+
+// Lines the caller said; unlabelled lines count as the caller's
+export const callerLines = (transcript: string): string[] =>
+  (transcript || '').split('\n').filter(line => line.trim() && !isAgentLine(line));
+
+// A line's words without its "speaker:" label
+export const spokenText = (line: string): string => line.replace(SPEAKER_LABEL, '');
+
+const speakerOf = (label: any): TranscriptSpeaker =>
+  AGENT_SPEAKERS.includes(String(label || '').trim().toLowerCase()) ? 'agent' : 'caller';
+
+const numberOrNull = (value: any): number | null => {
+  if (value == null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// Providers report confidence as 0–1 or as a percentage
+const confidenceOf = (value: any): number | null => {
+  const confidence = numberOrNull(value);
+  return confidence != null && confidence > 1 ? confidence / 100 : confidence;
+};
+
+const lineTurn = (line: string): TranscriptTurn => {
+  const label = line.match(SPEAKER_LABEL);
+  return {
+    speaker: label ? speakerOf(label[0].replace(':', '')) : 'caller',
+    text: spokenText(line).trim(),
+    start_seconds: null,
+    end_seconds: null,
+    confidence: null
+  };
+};
+
+/**
+ * Turns from a provider's transcript: "speaker: text" lines, or a list of
+ * turn objects in any of the shapes our providers send (role or speaker;
+ * text, message or content; start offsets in seconds).
+ */
+export const parseTurns = (transcript: any): TranscriptTurn[] => {
+  if (!transcript) return [];
+  if (typeof transcript === 'string') {
+    return transcript.split('\n').filter(line => line.trim()).map(lineTurn).filter(turn => turn.text);
+  }
+  if (!Array.isArray(transcript)) return [];
+
+  return transcript
+    .map((turn): TranscriptTurn => typeof turn === 'string'
+      ? lineTurn(turn)
+      : {
+        speaker: speakerOf(turn.speaker ?? turn.role ?? turn.participant),
+        text: String(turn.text ?? turn.message ?? turn.content ?? turn.utterance ?? '').trim(),
+        start_seconds: numberOrNull(turn.start_seconds ?? turn.start ?? turn.start_time ?? turn.time_in_call_secs ?? turn.timeInCallSecs ?? turn.offset),
+        end_seconds: numberOrNull(turn.end_seconds ?? turn.end ?? turn.end_time),
+        confidence: confidenceOf(turn.confidence ?? turn.score)
+      })
+    .filter(turn => turn.text);
+};
+
+export const renderTranscript = (turns: TranscriptTurn[]): string =>
+  turns.map(turn => `${turn.speaker}: ${turn.text}`).join('\n');
+
+/**
+ * Merge streamed turns into a transcript. A turn with the same speaker and
+ * start time replaces the earlier one (a partial result made final), as does
+ * a turn without times that continues the last turn's text. Repeated turns
+ * are ignored, so replayed events change nothing.
+ */
+export const mergeTurns = (existing: TranscriptTurn[], incoming: TranscriptTurn[]): TranscriptTurn[] => {
+  const merged = [...existing];
+  for (const turn of incoming) {
+    const last = merged[merged.length - 1];
+    const same = turn.start_seconds != null
+      ? merged.findIndex(other => other.speaker === turn.speaker && other.start_seconds === turn.start_seconds)
+      : merged.findIndex(other => other.speaker === turn.speaker && other.text === turn.text);
+
+    if (same >= 0) {
+      merged[same] = turn;
+    } else if (turn.start_seconds == null && last?.speaker === turn.speaker && last.start_seconds == null && turn.text.startsWith(last.text)) {
+      merged[merged.length - 1] = turn;
+    } else {
+      merged.push(turn);
+    }
+  }
+
+  // Order by time when every turn has one; otherwise keep the order they arrived in
+  return merged.every(turn => turn.start_seconds != null)
+    ? merged.sort((a, b) => a.start_seconds! - b.start_seconds!)
+    : merged;
+};
+
+const SPOKEN_DIGIT = '(?:zero|oh|one|two|three|four|five|six|seven|eight|nine|double|triple)';
+
+// Personal details hidden from owners, most specific first
+const REDACTIONS: [RegExp, string][] = [
+  [/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, '[email]'],
+  // Aadhaar-like: 12 digits starting 2–9, often in groups of four
+  [/\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g, '[id]'],
+  // 10 to 13 digits, allowing a leading + and single spaces or dashes between them
+  [/(?:\+|\b)(?:\d[\s-]?){9,12}\d\b/g, '[phone]'],
+  // Numbers read out digit by digit
+  [new RegExp(`\\b(?:${SPOKEN_DIGIT}[\\s,-]+){9,}${SPOKEN_DIGIT}\\b`, 'gi'), '[phone]']
+];
+
+// Replace phone numbers, emails and ID numbers in transcript text
+export const redactText = (text: string): string =>
+  REDACTIONS.reduce((redacted, [pattern, label]) => redacted.replace(pattern, label), text || '');
+
+export const redactTurns = (turns: TranscriptTurn[]): TranscriptTurn[] =>
+  turns.map(turn => ({ ...turn, text: redactText(turn.text) }));
+
+// A call or lead with its transcript text redacted
+export const withRedactedTranscript = <T extends { transcript: string }>(record: T): T =>
+  ({ ...record, transcript: redactText(record.transcript) });